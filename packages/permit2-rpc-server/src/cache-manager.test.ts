@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { CacheManager } from "./cache-manager.ts";
+import { MemoryCacheStore } from "./cache-store.ts";
+import type { LatencyTestResult } from "./latency-tester.ts";
+
+const PREFIX = "permit2RpcManagerCache";
+
+function result(url: string, latency: number): LatencyTestResult {
+  return { url, latency, status: "ok" };
+}
+
+Deno.test("CacheManager: a write from a stale copy is retried on top of the other instance's write", async () => {
+  const store = new MemoryCacheStore();
+  const first = new CacheManager({ store });
+  const second = new CacheManager({ store });
+  await first.updateChainCache(1, { a: result("a", 100), b: result("b", 200) }, "a");
+  await second.getLatencyMap(1);
+
+  // Both instances patch from their local copy; the second write conflicts and is re-run on a fresh read
+  await first.patchLatencyResult(1, "a", { latency: 150 });
+  await second.patchLatencyResult(1, "b", { latency: 250 });
+
+  const latencyMap = await new CacheManager({ store }).getLatencyMap(1);
+  assert.equal(latencyMap?.a.latency, 150);
+  assert.equal(latencyMap?.b.latency, 250);
+  // The retry also refreshed the second instance's own copy
+  assert.equal((await second.getLatencyMap(1))?.a.latency, 150);
+});
+
+Deno.test("CacheManager: gives up after repeated conflicts without throwing", async () => {
+  // Every versionstamp-checked write loses to another writer
+  class ContendedStore extends MemoryCacheStore {
+    override compareAndSet(): Promise<string | null> {
+      return Promise.resolve(null);
+    }
+  }
+  const warnings: string[] = [];
+  const cacheManager = new CacheManager({
+    store: new ContendedStore(),
+    logger: (level, message) => level === "warn" && warnings.push(message),
+  });
+  await cacheManager.updateChainCache(1, { a: result("a", 100) }, "a");
+  assert.equal(await cacheManager.getLatencyMap(1), null);
+  assert.match(warnings.join("\n"), /Gave up saving chain 1 after 3 conflicts/);
+});
+
+Deno.test("CacheManager: migrates the legacy single-blob cache to per-chain keys", async () => {
+  const store = new MemoryCacheStore();
+  const legacyChain = (url: string) => ({ fastestRpc: url, latencyMap: { [url]: result(url, 100) }, lastTested: 1 });
+  await store.set([PREFIX], { 1: legacyChain("legacy-1"), 137: legacyChain("legacy-137") });
+  // An isolate that already runs the per-chain layout wrote chain 137; it must not be overwritten
+  await store.set([PREFIX, 137], legacyChain("current-137"));
+
+  const cacheManager = new CacheManager({ store });
+  assert.deepEqual(Object.keys(await cacheManager.getLatencyMap(1) ?? {}), ["legacy-1"]);
+  assert.deepEqual(Object.keys(await cacheManager.getLatencyMap(137) ?? {}), ["current-137"]);
+  assert.deepEqual(await store.get([PREFIX]), { value: null, versionstamp: null });
+});
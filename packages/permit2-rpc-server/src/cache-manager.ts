@@ -1,4 +1,7 @@
-/// <reference lib="deno.ns" />
+import { type CacheKey, type CacheStore, LocalStorageCacheStore, MemoryCacheStore } from "./cache-store.ts";
+import { DenoKvCacheStore } from "./deno-kv-cache-store.ts";
+import { FileCacheStore } from "./file-cache-store.ts";
+import type { HealthSample } from "./health-history.ts";
 import type { LatencyTestResult } from "./latency-tester.ts";
 
 // Define a logger type
@@ -15,150 +18,202 @@ interface ChainCache {
   lastTested: number;
 }
 
-// Define the overall cache structure
+// Define the overall cache structure (also the legacy single-blob format under [cacheKey])
 type CacheData = Record<number, ChainCache>;
 
-// Environment check removed, assuming Deno environment with KV access
+// Per-isolate copy of a chain's KV entry
+interface LoadedChainCache {
+  value: ChainCache | null;
+  versionstamp: string | null;
+  loadedAt: number;
+}
+
+// Marks a chain's latency test as in progress in one isolate until `until`
+export interface TestLease {
+  owner: string;
+  until: number;
+}
+
+// Built-in storage backends, or a custom CacheStore
+export type CacheStoreOption = "memory" | "deno-kv" | "file" | "local-storage" | CacheStore;
 
 const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+// Fraction of the TTL after which cached latency results are refreshed in the background
+const DEFAULT_REFRESH_FRACTION = 0.5;
 const DEFAULT_LOCAL_STORAGE_KEY = "permit2RpcManagerCache";
+const DEFAULT_CACHE_FILE_PATH = "./permit2-rpc-cache.json";
+// How long an isolate trusts its copy of a chain's entry before re-reading it from KV
+const DEFAULT_SYNC_INTERVAL_MS = 30 * 1000;
+// Attempts for a versionstamp-checked write before giving up
+const MAX_ATOMIC_ATTEMPTS = 3;
 
 // Options for CacheManager constructor
 interface CacheManagerOptions {
-  cacheTtlMs?: number;
-  // nodeCachePath is no longer used in this base class
-  localStorageKey?: string; // Used as KV key prefix
+  cacheTtlMs?: number; // Hard expiry: older latency results are not served
+  refreshIntervalMs?: number; // Age after which results are re-tested in the background (default: half the TTL)
+  store?: CacheStoreOption; // Default: Deno KV when available, otherwise in-memory
+  nodeCachePath?: string; // JSON file used by the "file" store
+  localStorageKey?: string; // Key prefix in every store
   logger?: LoggerFn;
   disableCache?: boolean; // Option to disable caching for testing
+  syncIntervalMs?: number; // Re-read a chain's entry from KV when the local copy is older than this
+}
+
+/**
+ * Resolves the configured storage backend. Without an explicit choice, Deno KV is used when the runtime
+ * provides it (Deno, Deno Deploy) and process memory otherwise (Node, Bun, browsers).
+ */
+function createCacheStore(option: CacheStoreOption | undefined, namespace: string, filePath?: string): CacheStore {
+  const store = option ??
+    (typeof Deno !== "undefined" && typeof Deno.openKv === "function" ? "deno-kv" : "memory");
+  switch (store) {
+    case "memory":
+      return new MemoryCacheStore();
+    case "deno-kv":
+      return new DenoKvCacheStore();
+    case "file":
+      return new FileCacheStore(filePath ?? DEFAULT_CACHE_FILE_PATH);
+    case "local-storage":
+      return new LocalStorageCacheStore(namespace);
+    default:
+      return store;
+  }
 }
 
 /**
- * CacheManager primarily for browser environments using localStorage.
- * Node.js file caching is handled separately in cache-manager.node.ts.
+ * Stores latency test results per chain, persisted RPC responses and rate-limit cooldowns in a
+ * pluggable `CacheStore` (Deno KV, memory, a JSON file or localStorage).
  */
 export class CacheManager {
-  private cache: CacheData = {};
-  private cacheLoaded = false;
+  private chains = new Map<number, LoadedChainCache>(); // Local copies of the per-chain KV entries
+  private migration: Promise<void> | null = null;
+  private syncIntervalMs: number;
   private cacheKey: string; // Used as KV key prefix/identifier
   // nodeCachePath removed
   private cacheTtlMs: number;
+  private refreshIntervalMs: number;
   private log: LoggerFn;
-  // Deno KV instance placeholder
-  private kv: Deno.Kv | null = null;
+  private store: CacheStore;
   private disabled: boolean; // Cache disabled flag
 
   constructor(options: CacheManagerOptions = {}) {
     this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
-    // Keep option name localStorageKey for now, but use it as KV key
+    this.refreshIntervalMs = Math.min(
+      options.refreshIntervalMs ?? this.cacheTtlMs * DEFAULT_REFRESH_FRACTION,
+      this.cacheTtlMs,
+    );
+    // Keep option name localStorageKey for now, but use it as the key prefix in every store
     this.cacheKey = options.localStorageKey ?? DEFAULT_LOCAL_STORAGE_KEY;
+    this.store = createCacheStore(options.store, this.cacheKey, options.nodeCachePath);
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
     this.log = options.logger || (() => {});
     this.disabled = options.disableCache ?? false;
     if (this.disabled) {
       this.log("warn", "CacheManager: Caching is DISABLED via options.");
     }
-    // No Node path determination needed here
   }
 
-  // Helper to ensure KV is open
-  private async ensureKvOpen(): Promise<Deno.Kv> {
-    if (!this.kv) {
-      this.log("debug", "CacheManager (Deno): Opening Deno KV store...");
+  // Each chain lives under its own key so isolates don't overwrite each other's chains
+  private chainKey(chainId: number): CacheKey {
+    return [this.cacheKey, chainId];
+  }
+
+  /**
+   * Moves chains from the legacy single blob under [cacheKey] to per-chain keys, once per isolate.
+   * A chain that already has a per-chain entry keeps it.
+   */
+  private migrateLegacyCache(): Promise<void> {
+    this.migration ??= (async () => {
       try {
-        // Deno Deploy automatically provides the path. For local dev, it uses default.
-        this.kv = await Deno.openKv();
-        this.log("debug", "CacheManager (Deno): Deno KV store opened.");
-      } catch (e) { // Catch as unknown
-        const error = e instanceof Error ? e : new Error(String(e)); // Ensure Error type
+        const legacy = await this.store.get<CacheData>([this.cacheKey]);
+        if (legacy.value === null) return;
+        for (const [chainIdStr, chainCache] of Object.entries(legacy.value)) {
+          await this.store.compareAndSet(this.chainKey(Number(chainIdStr)), null, chainCache);
+        }
+        await this.store.delete([this.cacheKey]);
         this.log(
-          "error",
-          "CacheManager (Deno): Failed to open Deno KV store:",
-          error,
+          "info",
+          `CacheManager: Migrated ${
+            Object.keys(legacy.value).length
+          } chains from the single-blob cache (key: ${this.cacheKey})`,
         );
-        throw new Error(`Failed to open Deno KV store: ${error.message}`);
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        this.log("error", "CacheManager: Failed to migrate the single-blob cache:", error);
       }
-    }
-    return this.kv;
+    })();
+    return this.migration;
   }
 
-  private async loadCache(): Promise<void> {
-    if (this.disabled || this.cacheLoaded) return; // Skip if disabled
+  private leaseKey(chainId: number): CacheKey {
+    return [this.cacheKey, "leases", chainId];
+  }
 
-    // --- Deno KV Implementation ---
-    this.log(
-      "debug",
-      `CacheManager (Deno): Attempting to load cache from Deno KV (key: ${this.cacheKey})`,
-    );
+  // Returns the local copy of a chain's entry, re-reading it from KV once it is older than the sync interval.
+  // Null when caching is disabled.
+  private async getRawChainCache(chainId: number, forceReload = false): Promise<ChainCache | null> {
+    if (this.disabled) return null;
+    const local = this.chains.get(chainId);
+    if (!forceReload && local && Date.now() - local.loadedAt < this.syncIntervalMs) {
+      return local.value;
+    }
+    await this.migrateLegacyCache();
     try {
-      const kv = await this.ensureKvOpen();
-      // Use a single key to store the entire cache object
-      const result = await kv.get<CacheData>([this.cacheKey]);
-
-      if (result.value !== null) {
-        this.cache = result.value;
-        this.log(
-          "debug",
-          `CacheManager (Deno): Loaded cache from Deno KV (key: ${this.cacheKey})`,
-        );
-      } else {
-        this.log(
-          "debug",
-          `CacheManager (Deno): No cache found in Deno KV (key: ${this.cacheKey})`,
-        );
-        this.cache = {}; // Initialize empty if not found
-      }
-    } catch (e) { // Catch as unknown
-      const error = e instanceof Error ? e : new Error(String(e)); // Ensure Error type
+      const entry = await this.store.get<ChainCache>(this.chainKey(chainId));
+      this.chains.set(chainId, { value: entry.value, versionstamp: entry.versionstamp, loadedAt: Date.now() });
+      return entry.value;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
       this.log(
         "error",
-        `CacheManager (Deno): Failed to load cache from Deno KV (key: ${this.cacheKey}):`,
+        `CacheManager: Failed to load cache for chain ${chainId} (key: ${this.cacheKey}):`,
         error,
       );
-      this.cache = {}; // Initialize empty on error
+      return local?.value ?? null; // Keep serving the last copy we had
     }
-    // --- End Deno KV ---
-
-    this.cacheLoaded = true;
   }
 
-  private async saveCache(): Promise<void> {
-    if (this.disabled || !this.cacheLoaded) { // Skip if disabled
-      // Log if attempting to save while disabled, but don't warn if just not loaded yet
-      if (this.disabled) {
-        this.log("debug", "CacheManager: Caching disabled, skipping save.");
-      } else {this.log(
-          "warn",
-          "CacheManager: Attempted to save cache before loading.",
-        );}
-      return;
-    }
-
-    // --- Deno KV Implementation ---
-    this.log(
-      "debug",
-      `CacheManager (Deno): Attempting to save cache to Deno KV (key: ${this.cacheKey})`,
-    );
+  /**
+   * Read-modify-write of a chain's entry, guarded by its versionstamp so concurrent isolates never lose
+   * each other's updates. `update` gets the current value and returns the new one (null = no write);
+   * on a conflict it is re-run against the value freshly read from KV.
+   */
+  private async atomicUpdate(
+    chainId: number,
+    update: (current: ChainCache | null) => ChainCache | null,
+  ): Promise<void> {
+    await this.migrateLegacyCache();
+    const key = this.chainKey(chainId);
     try {
-      const kv = await this.ensureKvOpen();
-      await kv.set([this.cacheKey], this.cache);
-      this.log(
-        "debug",
-        `CacheManager (Deno): Saved cache to Deno KV (key: ${this.cacheKey})`,
-      );
-    } catch (e) { // Catch as unknown
-      const error = e instanceof Error ? e : new Error(String(e)); // Ensure Error type
+      // Optimistically start from the local copy; a conflict means it was stale, so re-read
+      const local = this.chains.get(chainId);
+      let entry = local
+        ? { value: local.value, versionstamp: local.versionstamp }
+        : await this.store.get<ChainCache>(key);
+      for (let attempt = 1; attempt <= MAX_ATOMIC_ATTEMPTS; attempt++) {
+        if (attempt > 1) entry = await this.store.get<ChainCache>(key);
+        const next = update(entry.value);
+        if (next === null) {
+          this.chains.set(chainId, { value: entry.value, versionstamp: entry.versionstamp, loadedAt: Date.now() });
+          return;
+        }
+        const versionstamp = await this.store.compareAndSet(key, entry.versionstamp, next);
+        if (versionstamp !== null) {
+          this.chains.set(chainId, { value: next, versionstamp, loadedAt: Date.now() });
+          this.log("debug", `CacheManager: Saved cache for chain ${chainId} (key: ${this.cacheKey})`);
+          return;
+        }
+        this.log("debug", `CacheManager: Write conflict for chain ${chainId}, retrying (${attempt})`);
+      }
+      this.log("warn", `CacheManager: Gave up saving chain ${chainId} after ${MAX_ATOMIC_ATTEMPTS} conflicts`);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
       this.log(
         "error",
-        `CacheManager (Deno): Failed to save cache to Deno KV (key: ${this.cacheKey}):`,
+        `CacheManager: Failed to save cache for chain ${chainId} (key: ${this.cacheKey}):`,
         error,
       );
     }
-    // --- End Deno KV ---
-  }
-
-  // Internal helper remains largely the same, relies on loadCache
-  private async getRawChainCache(chainId: number): Promise<ChainCache | null> {
-    await this.loadCache();
-    return this.cache[chainId] ?? null;
   }
 
   // Public methods need to check the disabled flag
@@ -181,6 +236,17 @@ export class CacheManager {
     return null;
   }
 
+  /**
+   * Returns true when the chain's cached results are older than the refresh interval.
+   * They remain servable until the TTL expires.
+   */
+  async needsRefresh(chainId: number): Promise<boolean> {
+    if (this.disabled) return false;
+    const chainCache = await this.getRawChainCache(chainId);
+    return chainCache !== null &&
+      Date.now() - chainCache.lastTested >= this.refreshIntervalMs;
+  }
+
   async updateChainCache(
     chainId: number,
     latencyMap: Record<string, LatencyTestResult>,
@@ -193,17 +259,217 @@ export class CacheManager {
       );
       return; // Do nothing if disabled
     }
-    await this.loadCache(); // Ensure loaded before update
     this.log("debug", `CacheManager: Updating cache for chainId ${chainId}`, {
       fastestRpc,
       latencyMapCount: Object.keys(latencyMap || {}).length,
     });
-    this.cache[chainId] = {
+    const chainCache: ChainCache = {
       fastestRpc,
       latencyMap: latencyMap || {},
       lastTested: Date.now(),
     };
-    await this.saveCache();
+    await this.atomicUpdate(chainId, () => chainCache);
+  }
+
+  /**
+   * Updates a single RPC's latency result in place, keeping the chain's lastTested timestamp
+   * so the change doesn't extend the cache lifetime.
+   */
+  async patchLatencyResult(
+    chainId: number,
+    url: string,
+    patch: Partial<LatencyTestResult>,
+  ): Promise<void> {
+    if (this.disabled) return;
+    await this.atomicUpdate(chainId, (current) => {
+      const existing = current?.latencyMap[url];
+      if (!current || !existing) return null;
+      return {
+        ...current,
+        latencyMap: { ...current.latencyMap, [url]: { ...existing, ...patch, url } },
+      };
+    });
+  }
+
+  /**
+   * Marks a chain's latency results as expired so the next request re-tests it (e.g. after its RPC list
+   * changed). The results stay stored, so each RPC's EWMA carries over into the new test.
+   */
+  async invalidateChain(chainId: number): Promise<void> {
+    if (this.disabled) return;
+    await this.atomicUpdate(chainId, (current) => current && { ...current, fastestRpc: null, lastTested: 0 });
+  }
+
+  /**
+   * Reads a persisted RPC response (see ResponseCache). Returns undefined on a miss.
+   */
+  async getCachedResponse(key: string): Promise<unknown> {
+    if (this.disabled) return undefined;
+    try {
+      const result = await this.store.get([this.cacheKey, "responses", key]);
+      return result.value ?? undefined;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log(
+        "warn",
+        `CacheManager: Failed to read cached response ${key}:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Persists an RPC response with an expiry. Failures (e.g. values over the store's size limit) are logged and ignored.
+   */
+  async setCachedResponse(
+    key: string,
+    value: unknown,
+    ttlMs: number,
+  ): Promise<void> {
+    if (this.disabled) return;
+    try {
+      await this.store.set([this.cacheKey, "responses", key], value, {
+        expireInMs: ttlMs,
+      });
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log(
+        "warn",
+        `CacheManager: Failed to persist cached response ${key}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Stores the end of a provider's rate-limit cooldown so other isolates skip it too.
+   */
+  async setRateLimitCooldown(url: string, until: number): Promise<void> {
+    if (this.disabled) return;
+    const expireIn = until - Date.now();
+    if (expireIn <= 0) return;
+    await this.store.set([this.cacheKey, "cooldowns", url], until, { expireInMs: expireIn });
+  }
+
+  /**
+   * Returns the active rate-limit cooldowns by URL (cooldown end timestamps).
+   */
+  async getRateLimitCooldowns(): Promise<Record<string, number>> {
+    if (this.disabled) return {};
+    const cooldowns: Record<string, number> = {};
+    try {
+      for (const entry of await this.store.list<number>([this.cacheKey, "cooldowns"])) {
+        const url = entry.key[2];
+        if (typeof url === "string" && entry.value > Date.now()) {
+          cooldowns[url] = entry.value;
+        }
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", "CacheManager: Failed to read rate-limit cooldowns:", error);
+    }
+    return cooldowns;
+  }
+
+  /**
+   * Re-reads a chain's entry from the store, ignoring the local copy. Used to pick up results written by
+   * another isolate. Unlike getChainCache, expired results are returned too.
+   */
+  async reloadChainCache(chainId: number): Promise<ChainCache | null> {
+    if (this.disabled) return null;
+    return await this.getRawChainCache(chainId, true);
+  }
+
+  /**
+   * Claims the latency test of a chain for `owner` during `ttlMs`. Returns false while another owner holds
+   * an unexpired lease. Leases expire on their own, so a crashed holder never blocks the chain for long.
+   * When caching is disabled or the store fails, the lease is granted (each isolate tests on its own).
+   */
+  async acquireTestLease(chainId: number, owner: string, ttlMs: number): Promise<boolean> {
+    if (this.disabled) return true;
+    const key = this.leaseKey(chainId);
+    try {
+      const current = await this.store.get<TestLease>(key);
+      if (current.value && current.value.owner !== owner && current.value.until > Date.now()) {
+        return false;
+      }
+      const lease: TestLease = { owner, until: Date.now() + ttlMs };
+      // The versionstamp check makes this a single winner even when isolates race for the same lease
+      return await this.store.compareAndSet(key, current.versionstamp, lease, { expireInMs: ttlMs }) !== null;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `CacheManager: Failed to acquire test lease for chain ${chainId}:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * Returns the unexpired test lease of a chain, if any.
+   */
+  async getTestLease(chainId: number): Promise<TestLease | null> {
+    if (this.disabled) return null;
+    try {
+      const { value } = await this.store.get<TestLease>(this.leaseKey(chainId));
+      return value && value.until > Date.now() ? value : null;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `CacheManager: Failed to read test lease for chain ${chainId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Releases a test lease early, if `owner` still holds it.
+   */
+  async releaseTestLease(chainId: number, owner: string): Promise<void> {
+    if (this.disabled) return;
+    const key = this.leaseKey(chainId);
+    try {
+      const current = await this.store.get<TestLease>(key);
+      if (current.value?.owner === owner) await this.store.delete(key);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `CacheManager: Failed to release test lease for chain ${chainId}:`, error);
+    }
+  }
+
+  /**
+   * Appends a latency test outcome to an RPC's history on the chain, keeping the newest `maxEntries`.
+   * Each URL has its own key, so isolates appending for different RPCs never conflict.
+   */
+  async appendHealthSample(chainId: number, url: string, sample: HealthSample, maxEntries: number): Promise<void> {
+    if (this.disabled) return;
+    const key = [this.cacheKey, "history", chainId, url];
+    try {
+      for (let attempt = 1; attempt <= MAX_ATOMIC_ATTEMPTS; attempt++) {
+        const current = await this.store.get<HealthSample[]>(key);
+        const samples = [...(current.value ?? []), sample].slice(-maxEntries);
+        if (await this.store.compareAndSet(key, current.versionstamp, samples) !== null) return;
+      }
+      this.log("warn", `CacheManager: Gave up appending health history for ${url} on chain ${chainId}`);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `CacheManager: Failed to append health history for ${url} on chain ${chainId}:`, error);
+    }
+  }
+
+  /**
+   * Returns the stored health history of every RPC of the chain, oldest sample first.
+   */
+  async getHealthHistory(chainId: number): Promise<Record<string, HealthSample[]>> {
+    if (this.disabled) return {};
+    const history: Record<string, HealthSample[]> = {};
+    try {
+      for (const entry of await this.store.list<HealthSample[]>([this.cacheKey, "history", chainId])) {
+        const url = entry.key[3];
+        if (typeof url === "string") history[url] = entry.value;
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `CacheManager: Failed to read health history for chain ${chainId}:`, error);
+    }
+    return history;
   }
 
   async getFastestRpc(chainId: number): Promise<string | null> {
@@ -214,6 +480,7 @@ export class CacheManager {
   async getLatencyMap(
     chainId: number,
   ): Promise<Record<string, LatencyTestResult> | null> {
+    if (this.disabled) return null;
     const chainCache = await this.getRawChainCache(chainId);
     return chainCache?.latencyMap ?? null;
   }
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { MemoryCacheStore } from "./cache-store.ts";
+
+// Exposes the record count, which reads can't show (they hide expired entries anyway)
+class InspectableStore extends MemoryCacheStore {
+  get size(): number {
+    return this.records.size;
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("MemoryCacheStore: compareAndSet only writes over the expected versionstamp", async () => {
+  const store = new MemoryCacheStore();
+  const created = await store.compareAndSet(["a"], null, 1);
+  assert.ok(created);
+  // The key exists now, so a second create conflicts
+  assert.equal(await store.compareAndSet(["a"], null, 2), null);
+
+  const updated = await store.compareAndSet(["a"], created, 3);
+  assert.ok(updated);
+  assert.notEqual(updated, created);
+  // A writer holding the old versionstamp lost the race
+  assert.equal(await store.compareAndSet(["a"], created, 4), null);
+  assert.deepEqual(await store.get(["a"]), { value: 3, versionstamp: updated });
+
+  await store.set(["a"], 5);
+  assert.equal(await store.compareAndSet(["a"], updated, 6), null);
+});
+
+Deno.test("MemoryCacheStore: expired entries are neither returned nor listed", async () => {
+  const store = new MemoryCacheStore();
+  await store.set(["p", "short"], "x", { expireInMs: 10 });
+  await store.set(["p", "long"], "y");
+  await store.set(["q", "other"], "z");
+  await wait(20);
+
+  assert.deepEqual(await store.get(["p", "short"]), { value: null, versionstamp: null });
+  assert.deepEqual(await store.list(["p"]), [{ key: ["p", "long"], value: "y" }]);
+  // An expired key counts as missing for compareAndSet
+  assert.ok(await store.compareAndSet(["p", "short"], null, "again"));
+});
+
+Deno.test("MemoryCacheStore: writes sweep out expired entries that are never read again", async () => {
+  const store = new InspectableStore({ sweepIntervalMs: 0 });
+  for (let i = 0; i < 10; i++) {
+    await store.set(["responses", i], i, { expireInMs: 10 });
+  }
+  await store.set(["chain"], "kept");
+  assert.equal(store.size, 11);
+  await wait(20);
+
+  await store.set(["responses", "new"], "fresh", { expireInMs: 1000 });
+  assert.equal(store.size, 2);
+  assert.equal((await store.get(["chain"])).value, "kept");
+});
+
+Deno.test("MemoryCacheStore: sweeps run at most once per interval", async () => {
+  const store = new InspectableStore({ sweepIntervalMs: 60_000 });
+  await store.set(["first"], 1, { expireInMs: 10 });
+  await wait(20);
+  // The first write swept already, so the expired entry stays until the next sweep (or a read)
+  await store.set(["second"], 2);
+  assert.equal(store.size, 2);
+  assert.equal((await store.get(["first"])).value, null);
+  assert.equal(store.size, 1);
+});
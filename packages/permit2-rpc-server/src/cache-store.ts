@@ -0,0 +1,215 @@
+// Storage backends for CacheManager. Every backend stores structured values under array keys, honours
+// `expireInMs` the same way (expired entries are never returned), and supports versionstamp-checked writes.
+
+export type CacheKey = (string | number)[];
+
+export interface CacheEntry<T> {
+  value: T | null; // null when the key is missing or expired
+  versionstamp: string | null; // Identifies the stored state, for compareAndSet
+}
+
+export interface CacheSetOptions {
+  expireInMs?: number; // Entry disappears after this long
+}
+
+export interface CacheStore {
+  get<T>(key: CacheKey): Promise<CacheEntry<T>>;
+  set(key: CacheKey, value: unknown, options?: CacheSetOptions): Promise<void>;
+  /**
+   * Writes only if the key's versionstamp still equals `expectedVersionstamp` (null = the key must not exist).
+   * Returns the new versionstamp, or null on a conflict.
+   */
+  compareAndSet(
+    key: CacheKey,
+    expectedVersionstamp: string | null,
+    value: unknown,
+    options?: CacheSetOptions,
+  ): Promise<string | null>;
+  delete(key: CacheKey): Promise<void>;
+  list<T>(prefix: CacheKey): Promise<{ key: CacheKey; value: T }[]>;
+}
+
+export interface StoredRecord {
+  key: CacheKey;
+  value: unknown;
+  versionstamp: string;
+  expiresAt: number | null;
+}
+
+/**
+ * JSON encoding that keeps non-finite numbers (e.g. the Infinity latency of failed RPCs).
+ */
+export function encodeJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => typeof v === "number" && !Number.isFinite(v) ? { $number: String(v) } : v,
+  );
+}
+
+export function decodeJson(text: string): unknown {
+  return JSON.parse(
+    text,
+    (_key, v) => v && typeof v === "object" && typeof v.$number === "string" ? Number(v.$number) : v,
+  );
+}
+
+// How often writes sweep out every expired entry (reads only drop the entries they hit)
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface MemoryCacheStoreOptions {
+  sweepIntervalMs?: number; // Minimum time between expiry sweeps (default 1 minute)
+}
+
+function hasPrefix(key: CacheKey, prefix: CacheKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, index) => key[index] === part);
+}
+
+/**
+ * Keeps entries in process memory. Also the base for backends that mirror their records elsewhere
+ * (file, localStorage) through the `load` and `persist` hooks.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected records = new Map<string, StoredRecord>();
+  private loaded: Promise<void> | null = null;
+  private instanceId = crypto.randomUUID();
+  private counter = 0;
+  private sweepIntervalMs: number;
+  private nextSweepAt = 0;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+  }
+
+  // Hook: fill `records` before the first operation
+  protected load(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  // Hook: mirror a written (or deleted, when record is null) entry
+  protected persist(_id: string, _record: StoredRecord | null): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    this.loaded ??= this.load().catch((e) => {
+      this.loaded = null; // Retry loading on the next operation
+      throw e;
+    });
+    await this.loaded;
+  }
+
+  // Returns the record id and the record, dropping it if it has expired
+  private async live(key: CacheKey): Promise<[string, StoredRecord | null]> {
+    await this.ensureLoaded();
+    const id = JSON.stringify(key);
+    const record = this.records.get(id) ?? null;
+    if (record && record.expiresAt !== null && record.expiresAt <= Date.now()) {
+      this.records.delete(id);
+      await this.persist(id, null);
+      return [id, null];
+    }
+    return [id, record];
+  }
+
+  // Drops every expired entry, at most once per sweep interval, so entries that are never read again don't pile up
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    if (now < this.nextSweepAt) return;
+    this.nextSweepAt = now + this.sweepIntervalMs;
+    const expired = [...this.records].filter(([, record]) => record.expiresAt !== null && record.expiresAt <= now);
+    for (const [id] of expired) this.records.delete(id);
+    await Promise.all(expired.map(([id]) => this.persist(id, null)));
+  }
+
+  private async write(id: string, key: CacheKey, value: unknown, options?: CacheSetOptions): Promise<string> {
+    await this.sweep();
+    const record: StoredRecord = {
+      key,
+      value: structuredClone(value),
+      versionstamp: `${this.instanceId}:${++this.counter}`,
+      expiresAt: options?.expireInMs !== undefined ? Date.now() + options.expireInMs : null,
+    };
+    this.records.set(id, record);
+    await this.persist(id, record);
+    return record.versionstamp;
+  }
+
+  async get<T>(key: CacheKey): Promise<CacheEntry<T>> {
+    const [, record] = await this.live(key);
+    return record
+      ? { value: structuredClone(record.value) as T, versionstamp: record.versionstamp }
+      : { value: null, versionstamp: null };
+  }
+
+  async set(key: CacheKey, value: unknown, options?: CacheSetOptions): Promise<void> {
+    const [id] = await this.live(key);
+    await this.write(id, key, value, options);
+  }
+
+  async compareAndSet(
+    key: CacheKey,
+    expectedVersionstamp: string | null,
+    value: unknown,
+    options?: CacheSetOptions,
+  ): Promise<string | null> {
+    const [id, record] = await this.live(key);
+    if ((record?.versionstamp ?? null) !== expectedVersionstamp) return null;
+    return await this.write(id, key, value, options);
+  }
+
+  async delete(key: CacheKey): Promise<void> {
+    const [id, record] = await this.live(key);
+    if (!record) return;
+    this.records.delete(id);
+    await this.persist(id, null);
+  }
+
+  async list<T>(prefix: CacheKey): Promise<{ key: CacheKey; value: T }[]> {
+    await this.ensureLoaded();
+    const entries: { key: CacheKey; value: T }[] = [];
+    for (const record of [...this.records.values()]) {
+      if (!hasPrefix(record.key, prefix)) continue;
+      const [, live] = await this.live(record.key);
+      if (live) entries.push({ key: live.key, value: structuredClone(live.value) as T });
+    }
+    return entries;
+  }
+}
+
+/**
+ * Browser backend: mirrors each entry to localStorage under `<namespace>:<key>`.
+ * Entries are read once per page load; writes from other tabs are not picked up until the next load.
+ */
+export class LocalStorageCacheStore extends MemoryCacheStore {
+  private storage: Storage;
+  private namespace: string;
+
+  constructor(namespace: string, storage: Storage = globalThis.localStorage) {
+    super();
+    if (!storage) throw new Error("localStorage is not available in this environment");
+    this.storage = storage;
+    this.namespace = namespace;
+  }
+
+  protected override load(): Promise<void> {
+    const prefix = `${this.namespace}:`;
+    for (let i = 0; i < this.storage.length; i++) {
+      const storageKey = this.storage.key(i);
+      if (!storageKey?.startsWith(prefix)) continue;
+      try {
+        const record = decodeJson(this.storage.getItem(storageKey) ?? "null") as StoredRecord | null;
+        if (record) this.records.set(storageKey.slice(prefix.length), record);
+      } catch {
+        // Skip entries that are not ours or were corrupted
+      }
+    }
+    return Promise.resolve();
+  }
+
+  protected override persist(id: string, record: StoredRecord | null): Promise<void> {
+    const storageKey = `${this.namespace}:${id}`;
+    if (record) this.storage.setItem(storageKey, encodeJson(record));
+    else this.storage.removeItem(storageKey);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { CapabilityProber } from "./capability-prober.ts";
+import { meetsRequirements, type RpcCapabilities } from "./rpc-capabilities.ts";
+
+const HEAD_BLOCK = 20000;
+
+interface FakeNode {
+  archive: boolean;
+  trace: boolean;
+  debug: boolean;
+  batch: boolean;
+  maxLogsRange: number;
+}
+
+type JsonRpcRequest = { id: number | string; method: string; params: unknown[] };
+
+function answer(node: FakeNode, request: JsonRpcRequest): unknown {
+  const result = (value: unknown) => ({ jsonrpc: "2.0", id: request.id, result: value });
+  const error = (code: number, message: string) => ({ jsonrpc: "2.0", id: request.id, error: { code, message } });
+  switch (request.method) {
+    case "eth_chainId":
+      return result("0x1");
+    case "eth_blockNumber":
+      return result(`0x${HEAD_BLOCK.toString(16)}`);
+    case "eth_getBalance":
+      return node.archive ? result("0x0") : error(-32000, "missing trie node");
+    case "trace_transaction":
+      return node.trace ? result(null) : error(-32601, "the method trace_transaction does not exist");
+    case "debug_traceTransaction":
+      // A supported namespace still fails for an unknown transaction
+      return node.debug ? error(-32000, "transaction not found") : error(-32601, "method not found");
+    case "eth_getLogs": {
+      const { fromBlock, toBlock } = request.params[0] as { fromBlock: string; toBlock: string };
+      const range = parseInt(toBlock, 16) - parseInt(fromBlock, 16) + 1;
+      return range <= node.maxLogsRange ? result([]) : error(-32005, "query exceeds max block range");
+    }
+    default:
+      return error(-32601, "method not found");
+  }
+}
+
+async function withFakeNode(node: FakeNode, run: (url: string, logsRanges: number[]) => Promise<void>) {
+  const logsRanges: number[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (request) => {
+    const body = await request.json();
+    if (Array.isArray(body)) {
+      return Response.json(node.batch ? body.map((item) => answer(node, item)) : answer(node, body[0]));
+    }
+    if (body.method === "eth_getLogs") {
+      const { fromBlock, toBlock } = body.params[0];
+      logsRanges.push(parseInt(toBlock, 16) - parseInt(fromBlock, 16) + 1);
+    }
+    return Response.json(answer(node, body));
+  });
+  try {
+    await run(`http://127.0.0.1:${server.addr.port}`, logsRanges);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("CapabilityProber: detects namespaces, archive state, batch support and the getLogs limit", async () => {
+  const node = { archive: true, trace: false, debug: true, batch: true, maxLogsRange: 2000 };
+  await withFakeNode(node, async (url, logsRanges) => {
+    const capabilities = await new CapabilityProber(1000).probe(url, 1);
+    assert.equal(capabilities.archive, true);
+    assert.equal(capabilities.trace, false);
+    assert.equal(capabilities.debug, true);
+    assert.equal(capabilities.batch, true);
+    assert.equal(capabilities.maxLogsRange, 2000);
+    assert.equal(capabilities.headBlock, HEAD_BLOCK);
+    // Ranges are tried largest first and the search stops at the first accepted one
+    assert.deepEqual(logsRanges, [10000, 5000, 2000]);
+  });
+});
+
+Deno.test("CapabilityProber: a node without batch, debug or archive support", async () => {
+  const node = { archive: false, trace: true, debug: false, batch: false, maxLogsRange: 50 };
+  await withFakeNode(node, async (url) => {
+    const capabilities = await new CapabilityProber(1000).probe(url, 1);
+    assert.equal(capabilities.archive, false);
+    assert.equal(capabilities.trace, true);
+    assert.equal(capabilities.debug, false);
+    assert.equal(capabilities.batch, false);
+    assert.equal(capabilities.maxLogsRange, null);
+  });
+});
+
+Deno.test("meetsRequirements: debug_ and trace_ calls need the probed namespace", () => {
+  const capabilities: RpcCapabilities = {
+    archive: false,
+    trace: true,
+    debug: false,
+    batch: true,
+    maxLogsRange: 1000,
+    headBlock: HEAD_BLOCK,
+  };
+  assert.equal(meetsRequirements(capabilities, "debug_traceTransaction", []), false);
+  assert.equal(meetsRequirements(capabilities, "trace_transaction", []), true);
+  assert.equal(meetsRequirements({ ...capabilities, debug: true }, "debug_traceTransaction", []), true);
+  assert.equal(meetsRequirements(undefined, "debug_traceTransaction", []), true);
+});
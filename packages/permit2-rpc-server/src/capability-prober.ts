@@ -0,0 +1,157 @@
+import type { RpcCapabilities } from "./rpc-capabilities.ts";
+import type { HeadersFn } from "./whitelist-schema.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | string;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ZERO_HASH = "0x0000000000000000000000000000000000000000000000000000000000000000";
+// Block ranges tried for eth_getLogs, largest first; the search stops at the first one accepted
+const LOGS_RANGE_CANDIDATES = [10000, 5000, 2000, 1000, 500, 100];
+// Errors that mean the method itself is unavailable, as opposed to e.g. "transaction not found"
+const METHOD_UNAVAILABLE_PATTERN =
+  /method.*(not found|not supported|not available|not allowed|does not exist|disabled)|unsupported method|not whitelisted/i;
+
+/**
+ * Probes optional RPC features: archive state, trace/debug namespaces, the maximum eth_getLogs range
+ * and batch support. A failed probe means "not supported".
+ */
+export class CapabilityProber {
+  private timeoutMs: number;
+  private log: LoggerFn;
+  private headersFor: HeadersFn | null;
+
+  constructor(timeoutMs: number, logger?: LoggerFn, headersFor?: HeadersFn) {
+    this.timeoutMs = timeoutMs;
+    this.log = logger || (() => {});
+    this.headersFor = headersFor ?? null;
+  }
+
+  private async post(url: string, chainId: number | undefined, body: unknown): Promise<unknown> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...(chainId !== undefined ? this.headersFor?.(chainId, url) : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error ${response.status} ${response.statusText}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async call(
+    url: string,
+    chainId: number | undefined,
+    method: string,
+    params: unknown[],
+  ): Promise<JsonRpcResponse> {
+    return await this.post(url, chainId, {
+      jsonrpc: "2.0",
+      method,
+      params,
+      id: `capability-${method}-${Date.now()}`,
+    }) as JsonRpcResponse;
+  }
+
+  // Supported if the call succeeds or fails for a reason other than the method being unavailable
+  private async supportsNamespace(
+    url: string,
+    chainId: number | undefined,
+    method: string,
+    params: unknown[],
+  ): Promise<boolean> {
+    try {
+      const response = await this.call(url, chainId, method, params);
+      if (!response.error) return true;
+      return response.error.code !== -32601 &&
+        !METHOD_UNAVAILABLE_PATTERN.test(response.error.message);
+    } catch {
+      return false;
+    }
+  }
+
+  private async supportsArchive(url: string, chainId: number | undefined): Promise<boolean> {
+    try {
+      const response = await this.call(url, chainId, "eth_getBalance", [ZERO_ADDRESS, "0x1"]);
+      return !response.error && typeof response.result === "string";
+    } catch {
+      return false;
+    }
+  }
+
+  private async supportsBatch(url: string, chainId: number | undefined): Promise<boolean> {
+    try {
+      const response = await this.post(url, chainId, [
+        { jsonrpc: "2.0", method: "eth_chainId", params: [], id: 1 },
+        { jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 2 },
+      ]);
+      return Array.isArray(response) && response.length === 2 &&
+        response.every((item) => item && typeof item === "object" && !("error" in item));
+    } catch {
+      return false;
+    }
+  }
+
+  private async getHeadBlock(url: string, chainId: number | undefined): Promise<number | null> {
+    try {
+      const response = await this.call(url, chainId, "eth_blockNumber", []);
+      return typeof response.result === "string" ? parseInt(response.result, 16) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Tries the candidate ranges one at a time, so a node is never hit with several large queries at once
+  private async findMaxLogsRange(url: string, chainId: number | undefined, headBlock: number): Promise<number | null> {
+    for (const range of LOGS_RANGE_CANDIDATES) {
+      const fromBlock = Math.max(0, headBlock - range + 1);
+      try {
+        const response = await this.call(url, chainId, "eth_getLogs", [{
+          address: PERMIT2_ADDRESS,
+          fromBlock: `0x${fromBlock.toString(16)}`,
+          toBlock: `0x${headBlock.toString(16)}`,
+        }]);
+        if (Array.isArray(response.result)) return range;
+      } catch {
+        // Try the next smaller range
+      }
+    }
+    return null;
+  }
+
+  async probe(url: string, chainId?: number): Promise<RpcCapabilities> {
+    const headBlock = await this.getHeadBlock(url, chainId);
+    const [archive, trace, debug, batch, maxLogsRange] = await Promise.all([
+      this.supportsArchive(url, chainId),
+      this.supportsNamespace(url, chainId, "trace_transaction", [ZERO_HASH]),
+      this.supportsNamespace(url, chainId, "debug_traceTransaction", [ZERO_HASH]),
+      this.supportsBatch(url, chainId),
+      headBlock !== null ? this.findMaxLogsRange(url, chainId, headBlock) : Promise.resolve(null),
+    ]);
+    const capabilities = { archive, trace, debug, batch, maxLogsRange, headBlock, probedAt: Date.now() };
+    this.log("debug", `Capabilities for ${url}:`, capabilities);
+    return capabilities;
+  }
+}
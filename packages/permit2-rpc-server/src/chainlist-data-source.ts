@@ -1,6 +1,14 @@
 // Directly import the JSON data as a fallback.
 // Adjust path to point one level up from src/
 import fallbackWhitelistJson from "../rpc-whitelist.json" with { type: "json" };
+import {
+  isTrackingAllowed,
+  isUsableRpcUrl,
+  normalizeEndpoint,
+  type RpcEndpoint,
+  type RpcWhitelist,
+  type TrackingLevel,
+} from "./whitelist-schema.ts";
 
 // Define a logger type
 type LoggerFn = (
@@ -9,24 +17,50 @@ type LoggerFn = (
   ...optionalParams: unknown[] // Changed any[] to unknown[]
 ) => void;
 
-// Interface for the structure of rpc-whitelist.json
-interface RpcWhitelist {
-  rpcs: {
-    [chainId: string]: string[]; // chainId as string key, array of URLs
-  };
+export interface ChainlistDataSourceOptions {
+  maxTracking?: TrackingLevel; // Skip endpoints labelled with more tracking than this (default "yes": keep all)
+}
+
+interface WhitelistEntry {
+  chainId: number;
+  endpoints: RpcEndpoint[];
+}
+
+function toEntries(jsonData: RpcWhitelist): WhitelistEntry[] {
+  return Object.entries(jsonData.rpcs || {}).map(([chainIdStr, endpoints]) => ({
+    chainId: parseInt(chainIdStr, 10),
+    // Pre-filter valid URLs
+    endpoints: endpoints.map(normalizeEndpoint).filter(({ url }) => typeof url === "string" && isUsableRpcUrl(url)),
+  }));
+}
+
+// Chain IDs whose endpoints differ between two versions of the whitelist (including added and removed chains)
+function changedChainIds(previous: WhitelistEntry[], next: WhitelistEntry[]): number[] {
+  const key = (entry?: WhitelistEntry) => JSON.stringify(entry?.endpoints ?? null);
+  const previousById = new Map(previous.map((entry) => [entry.chainId, entry]));
+  const nextById = new Map(next.map((entry) => [entry.chainId, entry]));
+  const chainIds = new Set([...previousById.keys(), ...nextById.keys()]);
+  return [...chainIds].filter((chainId) => key(previousById.get(chainId)) !== key(nextById.get(chainId)));
+}
+
+function endpointKey(chainId: number, url: string): string {
+  return `${chainId}:${url}`;
 }
 
 // Cast the imported JSON to the defined interface
 const fallbackJsonData = fallbackWhitelistJson as RpcWhitelist;
 
 export class ChainlistDataSource {
-  private whitelistData: { chainId: number; rpcUrls: string[] }[] = [];
+  private whitelistData: WhitelistEntry[] = [];
+  private endpointsByKey = new Map<string, RpcEndpoint>(); // Keyed by endpointKey(chainId, url)
+  private maxTracking: TrackingLevel;
   private initialized = false;
   private log: LoggerFn;
 
   // Accept optional initial data and logger
-  constructor(logger?: LoggerFn, initialData?: RpcWhitelist) {
+  constructor(logger?: LoggerFn, initialData?: RpcWhitelist, options: ChainlistDataSourceOptions = {}) {
     this.log = logger || (() => {});
+    this.maxTracking = options.maxTracking ?? "yes";
     // Use initialData if provided, otherwise use the imported fallback
     const sourceData = initialData || fallbackJsonData;
     this.loadData(sourceData); // Pass the data source to loadData
@@ -39,18 +73,8 @@ export class ChainlistDataSource {
     }
     this.log("info", "Initializing whitelist data...");
     try {
-      // Ensure rpcs object exists
-      jsonData.rpcs = jsonData.rpcs || {};
       // Transform the provided data directly
-      this.whitelistData = Object.entries(jsonData.rpcs).map((
-        [chainIdStr, urls],
-      ) => ({
-        chainId: parseInt(chainIdStr, 10),
-        rpcUrls: urls.filter((url) =>
-          typeof url === "string" && url.startsWith("https://") &&
-          !url.includes("${")
-        ), // Pre-filter valid URLs
-      }));
+      this.setEntries(toEntries(jsonData));
 
       this.initialized = true;
       this.log(
@@ -59,19 +83,60 @@ export class ChainlistDataSource {
       );
     } catch (error) {
       this.log("error", "Failed to process RPC whitelist data:", error);
-      this.whitelistData = [];
+      this.setEntries([]);
       this.initialized = true; // Prevent retries on error
     }
   }
 
+  /**
+   * Swaps in a new version of the whitelist (validated with parseWhitelist beforehand).
+   * Readers see either the old or the new data, never a mix. Returns the chain IDs whose URLs changed.
+   */
+  replaceData(jsonData: RpcWhitelist): number[] {
+    const next = toEntries(jsonData);
+    const changed = changedChainIds(this.whitelistData, next);
+    this.setEntries(next);
+    this.initialized = true;
+    this.log("info", `Replaced whitelist data: ${next.length} chains, ${changed.length} changed.`);
+    return changed;
+  }
+
+  // Both structures are replaced in the same synchronous step, so readers never see them disagree
+  private setEntries(entries: WhitelistEntry[]): void {
+    this.whitelistData = entries;
+    this.endpointsByKey = new Map(
+      entries.flatMap((entry) =>
+        entry.endpoints.map((endpoint) => [endpointKey(entry.chainId, endpoint.url), endpoint])
+      ),
+    );
+  }
+
   // Make getRpcUrls synchronous
+  // Disabled endpoints and endpoints tracking more than allowed are left out
   getRpcUrls(chainId: number): string[] {
     const chainEntry = this.whitelistData.find((c) => c.chainId === chainId);
     if (!chainEntry) {
       this.log("warn", `No whitelisted RPCs found for chainId: ${chainId}`);
       return [];
     }
-    return chainEntry.rpcUrls;
+    return chainEntry.endpoints
+      .filter((endpoint) => !endpoint.disabled && isTrackingAllowed(endpoint, this.maxTracking))
+      .map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Returns the whitelist metadata of a chain's endpoint (weight, tier, archive, headers, ...), if whitelisted.
+   * The same URL may be listed for several chains with different metadata.
+   */
+  getEndpoint(chainId: number, url: string): RpcEndpoint | undefined {
+    return this.endpointsByKey.get(endpointKey(chainId, url));
+  }
+
+  /**
+   * Returns the custom headers configured for a chain's endpoint (empty when none).
+   */
+  getHeaders(chainId: number, url: string): Record<string, string> {
+    return this.getEndpoint(chainId, url)?.headers ?? {};
   }
 
   // Make getAllChainIds synchronous
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { ConsensusError, type ConsensusSummary, runConsensus } from "./consensus-reader.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+// Resolves with each URL's answer (or rejects with its error) after the given delay
+function fakeAttempt(answers: Record<string, { delayMs: number; result?: unknown; error?: Error }>) {
+  return (url: string) =>
+    new Promise<unknown>((resolve, reject) => {
+      const { delayMs, result, error } = answers[url];
+      setTimeout(() => error ? reject(error) : resolve(result), delayMs);
+    });
+}
+
+function completion() {
+  let done: (summary: ConsensusSummary) => void = () => {};
+  const summary = new Promise<ConsensusSummary>((resolve) => done = resolve);
+  return { summary, onComplete: (result: ConsensusSummary) => done(result) };
+}
+
+Deno.test("runConsensus: results differing only in key order and hex case agree", async () => {
+  const { summary, onComplete } = completion();
+  const attempt = fakeAttempt({
+    a: { delayMs: 5, result: { to: "0xAbCd", value: "0x1" } },
+    b: { delayMs: 10, result: { value: "0x1", to: "0xabcd" } },
+    c: { delayMs: 30, result: { to: "0xabcd", value: "0x2" } },
+  });
+  const result = await runConsensus(["a", "b", "c"], attempt, 2, onComplete);
+  assert.deepEqual(result, { to: "0xAbCd", value: "0x1" });
+  // The late, disagreeing provider is still reported once every attempt has settled
+  assert.deepEqual(await summary, { agreeing: ["a", "b"], disagreeing: ["c"], failed: [] });
+});
+
+Deno.test("runConsensus: rejects as soon as the quorum can no longer be reached", async () => {
+  const { summary, onComplete } = completion();
+  const attempt = fakeAttempt({
+    a: { delayMs: 5, result: "0x1" },
+    b: { delayMs: 10, error: new Error("HTTP error 502") },
+    c: { delayMs: 15, result: "0x2" },
+  });
+  await assert.rejects(runConsensus(["a", "b", "c"], attempt, 2, onComplete), (error) => {
+    assert.ok(error instanceof ConsensusError);
+    assert.match(error.message, /needed 2 matching results from 3 RPCs, got groups of 1, 1 and 1 failures/);
+    assert.deepEqual(error.summary, { agreeing: [], disagreeing: ["a", "c"], failed: ["b"] });
+    return true;
+  });
+  assert.deepEqual(await summary, { agreeing: [], disagreeing: ["a", "c"], failed: ["b"] });
+});
+
+Deno.test("runConsensus: agreeing deterministic errors reject with that error", async () => {
+  const { summary, onComplete } = completion();
+  const revert = () => new JsonRpcUpstreamError(3, "execution reverted", "0x08c379a0");
+  const attempt = fakeAttempt({
+    a: { delayMs: 5, error: revert() },
+    b: { delayMs: 10, error: revert() },
+    c: { delayMs: 15, result: "0x" },
+  });
+  await assert.rejects(runConsensus(["a", "b", "c"], attempt, 2, onComplete), /execution reverted/);
+  assert.deepEqual(await summary, { agreeing: ["a", "b"], disagreeing: ["c"], failed: [] });
+});
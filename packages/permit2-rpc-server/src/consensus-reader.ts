@@ -0,0 +1,125 @@
+import { isDeterministicRpcError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+export interface ConsensusOptions {
+  providers: number; // How many ranked RPCs to query
+  quorum: number; // How many of them must return the same result
+}
+
+export interface ConsensusSummary {
+  agreeing: string[]; // URLs that returned the winning result
+  disagreeing: string[]; // URLs that returned a different result (all responders if there was no winner)
+  failed: string[]; // URLs that errored
+}
+
+/**
+ * Thrown when no result reaches the quorum.
+ */
+export class ConsensusError extends Error {
+  readonly summary: ConsensusSummary;
+
+  constructor(message: string, summary: ConsensusSummary) {
+    super(message);
+    this.name = "ConsensusError";
+    this.summary = summary;
+  }
+}
+
+/**
+ * Serializes a result so equivalent answers compare equal:
+ * object keys are sorted and hex strings are lower-cased (providers differ in address checksumming).
+ */
+function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (typeof v === "string" && v.startsWith("0x")) return v.toLowerCase();
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)),
+      );
+    }
+    return v;
+  });
+}
+
+/**
+ * Sends the same call to every URL and resolves as soon as `quorum` of them agree.
+ * Deterministic upstream errors (e.g. reverts) count as answers, so agreeing reverts reject with that error.
+ * Rejects with a ConsensusError once agreement is no longer possible.
+ * `onComplete` is called after every attempt has settled, so late disagreeing providers are still reported.
+ */
+export function runConsensus<T>(
+  urls: string[],
+  attempt: (url: string) => Promise<T>,
+  quorum: number,
+  onComplete: (summary: ConsensusSummary) => void,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const groups = new Map<
+      string,
+      { outcome: { result: T } | { error: JsonRpcUpstreamError }; urls: string[] }
+    >();
+    const failed: string[] = [];
+    let winningKey: string | null = null;
+    let decided = false;
+    let remaining = urls.length;
+
+    const summarize = (): ConsensusSummary => {
+      const agreeing = winningKey ? groups.get(winningKey)?.urls ?? [] : [];
+      const disagreeing = [...groups.entries()]
+        .filter(([key]) => key !== winningKey)
+        .flatMap(([, group]) => group.urls);
+      return { agreeing, disagreeing, failed };
+    };
+
+    const largestGroupSize = () => Math.max(0, ...[...groups.values()].map((group) => group.urls.length));
+
+    const settle = () => {
+      remaining--;
+      if (!decided && largestGroupSize() + remaining < quorum) {
+        decided = true;
+        reject(
+          new ConsensusError(
+            `Consensus not reached: needed ${quorum} matching results from ${urls.length} RPCs, got groups of ${
+              [...groups.values()].map((group) => group.urls.length).join(", ") || "0"
+            } and ${failed.length} failures.`,
+            summarize(),
+          ),
+        );
+      }
+      if (remaining === 0) {
+        onComplete(summarize());
+      }
+    };
+
+    const record = (
+      url: string,
+      key: string,
+      outcome: { result: T } | { error: JsonRpcUpstreamError },
+    ) => {
+      const group = groups.get(key) ?? { outcome, urls: [] };
+      group.urls.push(url);
+      groups.set(key, group);
+      if (!decided && group.urls.length >= quorum) {
+        decided = true;
+        winningKey = key;
+        if ("error" in group.outcome) reject(group.outcome.error);
+        else resolve(group.outcome.result);
+      }
+      settle();
+    };
+
+    for (const url of urls) {
+      attempt(url).then(
+        (result) => record(url, canonicalize(result), { result }),
+        (error) => {
+          if (isDeterministicRpcError(error)) {
+            const { code, data } = error as JsonRpcUpstreamError;
+            record(url, canonicalize({ error: { code, data } }), { error });
+            return;
+          }
+          failed.push(url);
+          settle();
+        },
+      );
+    }
+  });
+}
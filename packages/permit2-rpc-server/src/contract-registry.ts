@@ -0,0 +1,122 @@
+// Registry of contracts whose deployed code the latency tester verifies on each RPC.
+import { hexToBytes, keccak256 } from "./keccak.ts";
+import PERMIT2_BYTECODE_PREFIX from "./permit2-bytecode.ts";
+
+// An expected deployment. With neither codeHash nor bytecodePrefix, any non-empty code passes.
+export interface ContractExpectation {
+  name: string;
+  address: string;
+  codeHash?: string; // keccak256 of the full runtime bytecode
+  bytecodePrefix?: string; // Expected start of the runtime bytecode (0x-prefixed hex)
+}
+
+// Shape of contract-registry.json: contracts checked on every chain, plus per-chain ones
+export interface ContractRegistryConfig {
+  global?: ContractExpectation[];
+  chains?: { [chainId: string]: ContractExpectation[] };
+}
+
+export interface ContractCheckResult {
+  name: string;
+  address: string;
+  status: "ok" | "missing" | "mismatch";
+  detail?: string; // Why the check failed
+  codeSize?: number; // Bytes of code returned
+}
+
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+export const PERMIT2_CONTRACT: ContractExpectation = {
+  name: "Permit2",
+  address: PERMIT2_ADDRESS,
+  bytecodePrefix: PERMIT2_BYTECODE_PREFIX,
+};
+
+export const DEFAULT_CONTRACT_REGISTRY: ContractRegistryConfig = { global: [PERMIT2_CONTRACT] };
+
+// Bytes shown on each side of the first difference in mismatch details
+const MISMATCH_CONTEXT_BYTES = 8;
+
+function validateExpectation(contract: ContractExpectation, label: string): void {
+  if (typeof contract?.name !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(contract.address ?? "")) {
+    throw new Error(`Invalid contract registry: ${label} needs a name and a 0x-prefixed 20-byte address`);
+  }
+  for (const field of ["codeHash", "bytecodePrefix"] as const) {
+    const value = contract[field];
+    if (value !== undefined && !/^0x[0-9a-fA-F]*$/.test(value)) {
+      throw new Error(`Invalid contract registry: ${label}.${field} must be 0x-prefixed hex`);
+    }
+  }
+}
+
+function describePrefixMismatch(expected: string, received: string): string {
+  const expectedHex = expected.toLowerCase().slice(2);
+  const receivedHex = received.toLowerCase().slice(2);
+  let matchingChars = 0;
+  while (
+    matchingChars < expectedHex.length && matchingChars < receivedHex.length &&
+    expectedHex[matchingChars] === receivedHex[matchingChars]
+  ) {
+    matchingChars++;
+  }
+  const offset = Math.floor(matchingChars / 2);
+  if (receivedHex.length < expectedHex.length && matchingChars === receivedHex.length) {
+    return `code is ${receivedHex.length / 2} bytes, shorter than the ${expectedHex.length / 2}-byte expected prefix`;
+  }
+  const window = (hex: string) => `0x${hex.slice(offset * 2, (offset + MISMATCH_CONTEXT_BYTES) * 2)}`;
+  return `first difference at byte ${offset} of ${expectedHex.length / 2}: expected ${window(expectedHex)}..., got ${
+    window(receivedHex)
+  }...`;
+}
+
+/**
+ * Checks code returned by eth_getCode against an expectation and explains any mismatch.
+ */
+export function verifyContractCode(contract: ContractExpectation, code: string): ContractCheckResult {
+  const base = { name: contract.name, address: contract.address };
+  const codeSize = Math.max(0, (code.length - 2) / 2);
+  if (codeSize === 0) {
+    return { ...base, status: "missing", detail: `no code at ${contract.address}`, codeSize };
+  }
+  if (contract.codeHash) {
+    const codeHash = keccak256(hexToBytes(code));
+    if (codeHash !== contract.codeHash.toLowerCase()) {
+      return {
+        ...base,
+        status: "mismatch",
+        detail: `code hash ${codeHash} (${codeSize} bytes) does not match expected ${contract.codeHash.toLowerCase()}`,
+        codeSize,
+      };
+    }
+  }
+  if (contract.bytecodePrefix && !code.toLowerCase().startsWith(contract.bytecodePrefix.toLowerCase())) {
+    return { ...base, status: "mismatch", detail: describePrefixMismatch(contract.bytecodePrefix, code), codeSize };
+  }
+  return { ...base, status: "ok", codeSize };
+}
+
+/**
+ * Resolves which contracts to verify for a chain: the global entries followed by the chain's own.
+ */
+export class ContractRegistry {
+  private global: ContractExpectation[];
+  private chains = new Map<number, ContractExpectation[]>();
+
+  constructor(config: ContractRegistryConfig = DEFAULT_CONTRACT_REGISTRY) {
+    this.global = config.global ?? [];
+    this.global.forEach((contract, index) => validateExpectation(contract, `global[${index}]`));
+    for (const [chainIdStr, contracts] of Object.entries(config.chains ?? {})) {
+      const chainId = parseInt(chainIdStr, 10);
+      if (isNaN(chainId) || !Array.isArray(contracts)) {
+        throw new Error(`Invalid contract registry: chains.${chainIdStr} must be a list keyed by a numeric chain ID`);
+      }
+      contracts.forEach((contract, index) => validateExpectation(contract, `chains.${chainIdStr}[${index}]`));
+      this.chains.set(chainId, contracts);
+    }
+  }
+
+  contractsFor(chainId?: number): ContractExpectation[] {
+    const chainContracts = chainId !== undefined ? this.chains.get(chainId) ?? [] : [];
+    return [...this.global, ...chainContracts];
+  }
+}
@@ -0,0 +1,87 @@
+/// <reference lib="deno.ns" />
+import type { CacheEntry, CacheKey, CacheSetOptions, CacheStore } from "./cache-store.ts";
+
+// Values are wrapped with their expiry: KV's own expireIn only guarantees deletion "eventually"
+interface Envelope {
+  __cacheStore: 1;
+  value: unknown;
+  expiresAt: number | null;
+}
+
+function isEnvelope(stored: unknown): stored is Envelope {
+  return typeof stored === "object" && stored !== null && (stored as Envelope).__cacheStore === 1;
+}
+
+// Entries written before the store existed are plain values without an expiry
+function unwrap(stored: unknown): unknown {
+  if (!isEnvelope(stored)) return stored;
+  return stored.expiresAt !== null && stored.expiresAt <= Date.now() ? null : stored.value;
+}
+
+function wrap(value: unknown, options?: CacheSetOptions): Envelope {
+  const expiresAt = options?.expireInMs !== undefined ? Date.now() + options.expireInMs : null;
+  return { __cacheStore: 1, value, expiresAt };
+}
+
+/**
+ * Deno KV backend, shared by all isolates of a Deno Deploy project.
+ */
+export class DenoKvCacheStore implements CacheStore {
+  private kv: Promise<Deno.Kv> | null = null;
+  private path?: string;
+
+  constructor(path?: string) {
+    this.path = path; // Deno Deploy provides the database; locally the default path is used
+  }
+
+  private open(): Promise<Deno.Kv> {
+    this.kv ??= Deno.openKv(this.path).catch((e) => {
+      this.kv = null; // Allow a retry on the next call
+      const error = e instanceof Error ? e : new Error(String(e));
+      throw new Error(`Failed to open Deno KV store: ${error.message}`);
+    });
+    return this.kv;
+  }
+
+  async get<T>(key: CacheKey): Promise<CacheEntry<T>> {
+    const kv = await this.open();
+    const entry = await kv.get(key);
+    return { value: (unwrap(entry.value) ?? null) as T | null, versionstamp: entry.versionstamp };
+  }
+
+  async set(key: CacheKey, value: unknown, options?: CacheSetOptions): Promise<void> {
+    const kv = await this.open();
+    await kv.set(key, wrap(value, options), options?.expireInMs !== undefined ? { expireIn: options.expireInMs } : {});
+  }
+
+  async compareAndSet(
+    key: CacheKey,
+    expectedVersionstamp: string | null,
+    value: unknown,
+    options?: CacheSetOptions,
+  ): Promise<string | null> {
+    const kv = await this.open();
+    const result = await kv.atomic()
+      .check({ key, versionstamp: expectedVersionstamp })
+      .set(key, wrap(value, options), options?.expireInMs !== undefined ? { expireIn: options.expireInMs } : {})
+      .commit();
+    return result.ok ? result.versionstamp : null;
+  }
+
+  async delete(key: CacheKey): Promise<void> {
+    const kv = await this.open();
+    await kv.delete(key);
+  }
+
+  async list<T>(prefix: CacheKey): Promise<{ key: CacheKey; value: T }[]> {
+    const kv = await this.open();
+    const entries: { key: CacheKey; value: T }[] = [];
+    for await (const entry of kv.list({ prefix })) {
+      const value = unwrap(entry.value);
+      if (value !== null && value !== undefined) {
+        entries.push({ key: entry.key as CacheKey, value: value as T });
+      }
+    }
+    return entries;
+  }
+}
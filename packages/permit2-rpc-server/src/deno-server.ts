@@ -4,9 +4,14 @@
 // Note: CacheManager will be adapted for Deno KV later
 // ChainlistDataSource is instantiated internally by Permit2RpcManager
 // import { ChainlistDataSource } from './chainlist-data-source.ts';
-import { Permit2RpcManager } from "./permit2-rpc-manager.ts";
+import { Permit2RpcManager, type SendOptions } from "./permit2-rpc-manager.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
 // Adjust path to point one level up from src/
 import rpcWhitelist from "../rpc-whitelist.json" with { type: "json" };
+import methodPolicyConfig from "../method-policy.json" with { type: "json" };
+import { MethodPolicy } from "./method-policy.ts";
+import contractRegistryConfig from "../contract-registry.json" with { type: "json" };
+import { type ContractRegistryConfig, PERMIT2_CONTRACT } from "./contract-registry.ts";
 
 // Simple interface for JSON-RPC request structure
 interface JsonRpcRequest {
@@ -50,14 +55,72 @@ function createJsonRpcError(
   id: number | string | null,
   code: number,
   message: string,
+  data?: unknown,
 ): JsonRpcResponse {
   return {
     jsonrpc: "2.0",
     id,
-    error: { code, message },
+    error: data === undefined ? { code, message } : { code, message, data },
   };
 }
 
+// Helper to turn an error thrown by the manager into a JSON-RPC error response.
+// Upstream JSON-RPC errors keep their code and data (e.g. revert bytes); anything else becomes -32000.
+function toJsonRpcError(
+  id: number | string | null,
+  error: Error,
+): JsonRpcResponse {
+  if (error instanceof JsonRpcUpstreamError) {
+    return createJsonRpcError(id, error.code, error.message, error.data);
+  }
+  return createJsonRpcError(
+    id,
+    -32000,
+    `Internal Server Error: ${error.message}`,
+  );
+}
+
+// Upper bound on providers a single consensus read may fan out to
+const MAX_CONSENSUS_PROVIDERS = 5;
+
+/**
+ * Parses the optional `X-Rpc-Consensus: <quorum>/<providers>` header (e.g. `2/3`).
+ * Returns null when the header is absent and throws when it is malformed.
+ */
+function parseConsensusHeader(value: string | null): SendOptions["consensus"] | null {
+  if (value === null) return null;
+  const match = value.trim().match(/^(\d+)\/(\d+)$/);
+  const quorum = match ? parseInt(match[1], 10) : NaN;
+  const providers = match ? parseInt(match[2], 10) : NaN;
+  if (
+    !match || quorum < 1 || quorum > providers ||
+    providers > MAX_CONSENSUS_PROVIDERS
+  ) {
+    throw new Error(
+      `Invalid X-Rpc-Consensus header "${value}". Expected <quorum>/<providers> with providers <= ${MAX_CONSENSUS_PROVIDERS}.`,
+    );
+  }
+  return { quorum, providers };
+}
+
+// Client-chosen session ids: short opaque tokens
+const SESSION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Parses the optional `X-Rpc-Session: <id>` header used for consistent reads across requests.
+ * Returns null when the header is absent and throws when it is malformed.
+ */
+function parseSessionHeader(value: string | null): string | null {
+  if (value === null) return null;
+  const sessionId = value.trim();
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new Error(
+      `Invalid X-Rpc-Session header. Expected 1-128 characters from [A-Za-z0-9._:-].`,
+    );
+  }
+  return sessionId;
+}
+
 const PORT = parseInt(Deno.env.get("PORT") ?? "8000");
 
 console.log("Initializing Permit2 RPC Manager Proxy...");
@@ -73,19 +136,48 @@ if (shouldDisableCache) {
   );
 }
 
+// Optional live whitelist (URL or file path); the bundled rpc-whitelist.json is used until it loads
+// and whenever an update fails or is invalid.
+const whitelistLocation = Deno.env.get("RPC_WHITELIST_URL");
+const whitelistPollMs = parseInt(Deno.env.get("RPC_WHITELIST_POLL_MS") ?? "", 10);
+
 // Instantiate Permit2RpcManager, passing initial data and cache option.
+// Contracts verified on every tested RPC: Permit2 plus the entries in contract-registry.json
+const extraContracts = contractRegistryConfig as ContractRegistryConfig;
 const manager = new Permit2RpcManager({
   initialRpcData: rpcWhitelist,
+  whitelistSource: whitelistLocation
+    ? { location: whitelistLocation, pollIntervalMs: isNaN(whitelistPollMs) ? undefined : whitelistPollMs }
+    : undefined,
   disableCache: shouldDisableCache,
+  latencyTesting: {
+    contracts: {
+      global: [PERMIT2_CONTRACT, ...(extraContracts.global ?? [])],
+      chains: extraContracts.chains,
+    },
+  },
   // TODO: Configure other CacheManager options like TTL if needed
 });
 
+// Optional scheduled latency re-test (e.g. LATENCY_REFRESH_CRON="*/20 * * * *"), so user requests
+// never have to wait for one. Deno.cron needs --unstable-cron outside Deno Deploy.
+const latencyRefreshCron = Deno.env.get("LATENCY_REFRESH_CRON");
+if (latencyRefreshCron) {
+  Deno.cron("Refresh RPC latency", latencyRefreshCron, async () => {
+    await manager.refreshLatency();
+  });
+  console.log(`Scheduled latency refresh: ${latencyRefreshCron}`);
+}
+
+// Method allow/deny rules enforced before anything is forwarded upstream
+const methodPolicy = new MethodPolicy(methodPolicyConfig);
+
 const handler = async (request: Request): Promise<Response> => {
   // Set CORS headers for all responses
   const corsHeaders = {
     "Access-Control-Allow-Origin": "*", // Allow requests from any origin
     "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization", // Adjust as needed
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Rpc-Consensus, X-Rpc-Session", // Adjust as needed
   };
 
   // Handle CORS preflight requests
@@ -130,6 +222,23 @@ const handler = async (request: Request): Promise<Response> => {
     });
   }
 
+  const sendOptions: SendOptions = {};
+  try {
+    const consensus = parseConsensusHeader(
+      request.headers.get("X-Rpc-Consensus"),
+    );
+    if (consensus) sendOptions.consensus = consensus;
+    const sessionId = parseSessionHeader(request.headers.get("X-Rpc-Session"));
+    if (sessionId) sendOptions.sessionId = sessionId;
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    const errorResponse = createJsonRpcError(null, -32600, error.message);
+    return new Response(JSON.stringify(errorResponse), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
   let requestBody: unknown;
   try {
     requestBody = await request.json();
@@ -181,11 +290,16 @@ const handler = async (request: Request): Promise<Response> => {
 
     // Process batch requests concurrently
     const promises = requestBody.map(async (req) => {
+      const decision = methodPolicy.check(chainId, req.method);
+      if (!decision.allowed) {
+        return createJsonRpcError(req.id, decision.code, decision.message);
+      }
       try {
         const result = await manager.send(
           chainId,
           req.method,
           req.params ?? [],
+          sendOptions,
         );
         return { jsonrpc: "2.0", id: req.id, result } as JsonRpcResponse;
       } catch (e) {
@@ -195,11 +309,7 @@ const handler = async (request: Request): Promise<Response> => {
           error,
         );
         // Return individual error for this specific request in the batch
-        return createJsonRpcError(
-          req.id,
-          -32000,
-          `Internal Server Error: ${error.message}`,
-        );
+        return toJsonRpcError(req.id, error);
       }
     });
 
@@ -214,11 +324,24 @@ const handler = async (request: Request): Promise<Response> => {
     console.log(
       `Received single request for chain ${chainId}: ${requestBody.method}`,
     );
+    const decision = methodPolicy.check(chainId, requestBody.method);
+    if (!decision.allowed) {
+      const errorResponse = createJsonRpcError(
+        requestBody.id,
+        decision.code,
+        decision.message,
+      );
+      return new Response(JSON.stringify(errorResponse), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     try {
       const result = await manager.send(
         chainId,
         requestBody.method,
         requestBody.params ?? [],
+        sendOptions,
       );
       const rpcResponse: JsonRpcResponse = {
         jsonrpc: "2.0",
@@ -235,13 +358,10 @@ const handler = async (request: Request): Promise<Response> => {
         `Error processing single request (id: ${requestBody.id}, method: ${requestBody.method}) for chain ${chainId}:`,
         error,
       );
-      const errorResponse = createJsonRpcError(
-        requestBody.id,
-        -32000,
-        `Internal Server Error: ${error.message}`,
-      );
+      const errorResponse = toJsonRpcError(requestBody.id, error);
+      // Upstream JSON-RPC errors are valid responses, so only internal failures use HTTP 500
       return new Response(JSON.stringify(errorResponse), {
-        status: 500,
+        status: error instanceof JsonRpcUpstreamError ? 200 : 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
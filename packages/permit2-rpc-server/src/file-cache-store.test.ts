@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { FileCacheStore } from "./file-cache-store.ts";
+
+async function withTempFile(run: (path: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await run(`${dir}/cache.json`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("FileCacheStore: a burst of changes is written and loaded back", async () => {
+  await withTempFile(async (path) => {
+    const store = new FileCacheStore(path);
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.set(["responses", i], { i })));
+    await store.set(["latency"], { latency: Infinity });
+    await store.delete(["responses", 0]);
+
+    const reloaded = new FileCacheStore(path);
+    assert.equal((await reloaded.list(["responses"])).length, 19);
+    assert.equal((await reloaded.get(["responses", 0])).value, null);
+    assert.deepEqual((await reloaded.get(["responses", 19])).value, { i: 19 });
+    // Non-finite numbers survive the JSON file
+    assert.deepEqual((await reloaded.get(["latency"])).value, { latency: Infinity });
+  });
+});
+
+Deno.test("FileCacheStore: versionstamps survive a reload and still detect conflicts", async () => {
+  await withTempFile(async (path) => {
+    const store = new FileCacheStore(path);
+    const versionstamp = await store.compareAndSet(["lease"], null, { owner: "a" });
+    assert.ok(versionstamp);
+
+    const reloaded = new FileCacheStore(path);
+    assert.equal(await reloaded.compareAndSet(["lease"], null, { owner: "b" }), null);
+    assert.ok(await reloaded.compareAndSet(["lease"], versionstamp, { owner: "b" }));
+    assert.equal(await reloaded.compareAndSet(["lease"], versionstamp, { owner: "c" }), null);
+  });
+});
+
+Deno.test("FileCacheStore: expired entries are swept from the file", async () => {
+  await withTempFile(async (path) => {
+    const store = new FileCacheStore(path, { sweepIntervalMs: 0 });
+    await store.set(["cooldowns", "https://a.example"], 1, { expireInMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await store.set(["cooldowns", "https://b.example"], 2);
+
+    const stored = JSON.parse(await Deno.readTextFile(path));
+    assert.deepEqual(Object.keys(stored), [JSON.stringify(["cooldowns", "https://b.example"])]);
+  });
+});
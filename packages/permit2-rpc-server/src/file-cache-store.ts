@@ -0,0 +1,62 @@
+import {
+  decodeJson,
+  encodeJson,
+  MemoryCacheStore,
+  type MemoryCacheStoreOptions,
+  type StoredRecord,
+} from "./cache-store.ts";
+
+// Loaded on first use so that importing this module doesn't require node:fs (e.g. in browsers)
+const loadFs = async () => (await import("node:fs")).promises;
+
+/**
+ * Node/Bun/Deno backend: keeps entries in memory and mirrors them to one JSON file. Changes made while the
+ * file is being written are batched into the next write, so a burst of changes costs two writes.
+ * Meant for a single process; concurrent processes sharing the file overwrite each other.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private path: string;
+  private lastWrite: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null; // Not started yet; every change until then shares it
+
+  constructor(path: string, options: MemoryCacheStoreOptions = {}) {
+    super(options);
+    this.path = path;
+  }
+
+  protected override async load(): Promise<void> {
+    const fs = await loadFs();
+    let text: string;
+    try {
+      text = await fs.readFile(this.path, "utf8");
+    } catch (e) {
+      if ((e as { code?: string })?.code === "ENOENT") return; // First run, nothing stored yet
+      throw e;
+    }
+    const stored = decodeJson(text) as Record<string, StoredRecord> | null;
+    for (const [id, record] of Object.entries(stored ?? {})) {
+      this.records.set(id, record);
+    }
+  }
+
+  protected override persist(): Promise<void> {
+    // Serialize writes so an older snapshot never lands after a newer one
+    if (!this.queuedWrite) {
+      this.queuedWrite = this.lastWrite
+        .catch(() => {})
+        .then(() => {
+          this.queuedWrite = null; // Changes from here on need another write
+          return this.writeSnapshot();
+        });
+      this.lastWrite = this.queuedWrite;
+    }
+    return this.queuedWrite;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const fs = await loadFs();
+    const tempPath = `${this.path}.tmp`;
+    await fs.writeFile(tempPath, encodeJson(Object.fromEntries(this.records)), "utf8");
+    await fs.rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { CacheManager } from "./cache-manager.ts";
+import { HealthHistory, type HealthSample, summarizeHistory } from "./health-history.ts";
+
+Deno.test("summarizeHistory: counts degraded answers as up and averages only ok latencies", () => {
+  const samples: HealthSample[] = [
+    { at: 1, status: "ok", latency: 100 },
+    { at: 2, status: "lagging", latency: 400 },
+    { at: 3, status: "ok", latency: 200 },
+    { at: 4, status: "timeout", latency: Infinity },
+    { at: 5, status: "wrong_chain", latency: 50 },
+  ];
+  assert.deepEqual(summarizeHistory(1, "https://a.example", samples), {
+    url: "https://a.example",
+    chainId: 1,
+    samples: 5,
+    uptimePercent: 60,
+    averageLatencyMs: 150,
+    statusCounts: { ok: 2, lagging: 1, timeout: 1, wrong_chain: 1 },
+    firstSampleAt: 1,
+    lastSampleAt: 5,
+  });
+});
+
+Deno.test("summarizeHistory: an empty history has no uptime or latency", () => {
+  const stats = summarizeHistory(1, "https://a.example", []);
+  assert.equal(stats.uptimePercent, 0);
+  assert.equal(stats.averageLatencyMs, null);
+  assert.equal(stats.firstSampleAt, null);
+  assert.equal(stats.lastSampleAt, null);
+});
+
+Deno.test("HealthHistory: keeps the newest samples and penalizes flaky RPCs", async () => {
+  const history = new HealthHistory(new CacheManager({ store: "memory" }), {
+    maxEntries: 4,
+    downRankFlaky: { minSamples: 4, minUptimePercent: 75, penaltyMs: 500 },
+  });
+  const statuses = ["timeout", "ok", "ok", "timeout", "ok"] as const;
+  for (const [index, status] of statuses.entries()) {
+    await history.record(1, {
+      "https://flaky.example": { url: "https://flaky.example", status, latency: status === "ok" ? 100 : Infinity },
+      "https://steady.example": { url: "https://steady.example", status: "ok", latency: 50 },
+    }, index);
+  }
+
+  const [steady, flaky] = await history.getStats(1);
+  assert.equal(steady.url, "https://steady.example");
+  assert.equal(flaky.samples, 4);
+  assert.equal(flaky.firstSampleAt, 1);
+  assert.equal(flaky.uptimePercent, 75);
+  assert.equal(history.getPenaltyMs(1, "https://flaky.example"), 0);
+
+  await history.record(1, { "https://flaky.example": { url: "https://flaky.example", status: "timeout", latency: 0 } });
+  await history.prepareRanking(1);
+  assert.equal(history.getPenaltyMs(1, "https://flaky.example"), 500);
+  assert.equal(history.getPenaltyMs(1, "https://steady.example"), 0);
+});
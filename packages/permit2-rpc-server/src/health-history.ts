@@ -0,0 +1,161 @@
+import type { CacheManager } from "./cache-manager.ts";
+import type { LatencyTestResult } from "./latency-tester.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+type LatencyTestStatus = LatencyTestResult["status"];
+
+// One latency test outcome of an RPC, kept in its history
+export interface HealthSample {
+  at: number; // Test timestamp
+  status: LatencyTestStatus;
+  latency: number; // Infinity when the test failed
+}
+
+export interface RpcUptimeStats {
+  url: string;
+  chainId: number;
+  samples: number;
+  uptimePercent: number; // Share of tests the RPC answered on the right chain
+  averageLatencyMs: number | null; // Mean latency of successful tests
+  statusCounts: Partial<Record<LatencyTestStatus, number>>;
+  firstSampleAt: number | null;
+  lastSampleAt: number | null;
+}
+
+export interface FlakyDownRankOptions {
+  minUptimePercent?: number; // RPCs below this uptime are penalized (default 90)
+  minSamples?: number; // History needed before an RPC can be judged (default 24)
+  penaltyMs?: number; // Added to the ranking latency of flaky RPCs (default 2000)
+}
+
+export interface HealthHistoryOptions {
+  enabled?: boolean; // Default true
+  maxEntries?: number; // Samples kept per RPC and chain (default 168, about 3.5 days at the default 30-minute refresh)
+  downRankFlaky?: FlakyDownRankOptions | boolean; // Off unless set
+}
+
+const DEFAULT_MAX_ENTRIES = 168;
+const DEFAULT_MIN_UPTIME_PERCENT = 90;
+const DEFAULT_MIN_SAMPLES = 24;
+const DEFAULT_FLAKY_PENALTY_MS = 2000;
+// How long computed stats are reused for ranking before the history is re-read
+const STATS_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Statuses where the RPC answered on the right chain (degraded, but up)
+const UP_STATUSES = new Set<LatencyTestStatus>(["ok", "lagging", "syncing", "wrong_bytecode"]);
+
+/**
+ * Derives uptime, average latency and the status breakdown from an RPC's samples.
+ */
+export function summarizeHistory(chainId: number, url: string, samples: HealthSample[]): RpcUptimeStats {
+  const statusCounts: Partial<Record<LatencyTestStatus, number>> = {};
+  let up = 0;
+  let latencySum = 0;
+  let latencyCount = 0;
+  for (const sample of samples) {
+    statusCounts[sample.status] = (statusCounts[sample.status] ?? 0) + 1;
+    if (UP_STATUSES.has(sample.status)) up++;
+    if (sample.status === "ok" && Number.isFinite(sample.latency)) {
+      latencySum += sample.latency;
+      latencyCount++;
+    }
+  }
+  return {
+    url,
+    chainId,
+    samples: samples.length,
+    uptimePercent: samples.length > 0 ? (up / samples.length) * 100 : 0,
+    averageLatencyMs: latencyCount > 0 ? latencySum / latencyCount : null,
+    statusCounts,
+    firstSampleAt: samples[0]?.at ?? null,
+    lastSampleAt: samples[samples.length - 1]?.at ?? null,
+  };
+}
+
+/**
+ * Keeps a bounded history of latency test outcomes per RPC and chain in the cache store, and optionally
+ * turns chronically low uptime into a ranking penalty.
+ */
+export class HealthHistory {
+  private cacheManager: CacheManager;
+  private enabled: boolean;
+  private maxEntries: number;
+  private downRank: Required<FlakyDownRankOptions> | null;
+  private stats = new Map<number, { byUrl: Map<string, RpcUptimeStats>; loadedAt: number }>();
+  private loading = new Map<number, Promise<void>>();
+  private log: LoggerFn;
+
+  constructor(cacheManager: CacheManager, options: HealthHistoryOptions = {}, logger?: LoggerFn) {
+    this.cacheManager = cacheManager;
+    this.enabled = options.enabled ?? true;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    const downRank = options.downRankFlaky === true ? {} : options.downRankFlaky || null;
+    this.downRank = downRank && {
+      minUptimePercent: downRank.minUptimePercent ?? DEFAULT_MIN_UPTIME_PERCENT,
+      minSamples: downRank.minSamples ?? DEFAULT_MIN_SAMPLES,
+      penaltyMs: downRank.penaltyMs ?? DEFAULT_FLAKY_PENALTY_MS,
+    };
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Appends the outcome of a latency test run to each tested RPC's history.
+   */
+  async record(chainId: number, latencyMap: Record<string, LatencyTestResult>, at = Date.now()): Promise<void> {
+    if (!this.enabled) return;
+    const samples = Object.values(latencyMap).map((result) => ({
+      url: result.url,
+      sample: { at, status: result.status, latency: result.latency },
+    }));
+    await Promise.all(
+      samples.map(({ url, sample }) => this.cacheManager.appendHealthSample(chainId, url, sample, this.maxEntries)),
+    );
+    this.stats.delete(chainId); // Recompute from the updated history on next use
+    this.log("debug", `Recorded health samples for ${samples.length} RPCs of chain ${chainId}`);
+  }
+
+  /**
+   * Returns uptime statistics for every RPC with history on the chain, best uptime first.
+   */
+  async getStats(chainId: number): Promise<RpcUptimeStats[]> {
+    if (!this.enabled) return [];
+    const history = await this.cacheManager.getHealthHistory(chainId);
+    const stats = Object.entries(history).map(([url, samples]) => summarizeHistory(chainId, url, samples));
+    this.stats.set(chainId, { byUrl: new Map(stats.map((entry) => [entry.url, entry])), loadedAt: Date.now() });
+    return stats.sort((a, b) => b.uptimePercent - a.uptimePercent || a.url.localeCompare(b.url));
+  }
+
+  /**
+   * Loads the chain's stats for `getPenaltyMs` unless a recent copy is held. No-op without down-ranking.
+   */
+  async prepareRanking(chainId: number): Promise<void> {
+    if (!this.enabled || !this.downRank) return;
+    const cached = this.stats.get(chainId);
+    if (cached && Date.now() - cached.loadedAt < STATS_REFRESH_INTERVAL_MS) return;
+    let loading = this.loading.get(chainId);
+    if (!loading) {
+      loading = this.getStats(chainId)
+        .then(() => {})
+        .catch((e) => this.log("warn", `Failed to load health history for chain ${chainId}:`, e))
+        .finally(() => this.loading.delete(chainId));
+      this.loading.set(chainId, loading);
+    }
+    await loading;
+  }
+
+  /**
+   * Ranking penalty for an RPC whose uptime over enough samples is below the threshold, otherwise 0.
+   */
+  getPenaltyMs(chainId: number, url: string): number {
+    if (!this.downRank) return 0;
+    const stats = this.stats.get(chainId)?.byUrl.get(url);
+    if (!stats || stats.samples < this.downRank.minSamples) return 0;
+    return stats.uptimePercent < this.downRank.minUptimePercent ? this.downRank.penaltyMs : 0;
+  }
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { HedgePolicy, runHedged } from "./hedged-request.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+const noLog = () => {};
+
+// Answers after `delayMs` unless aborted first; records which URLs were tried and which were aborted
+function fakeUpstream(delays: Record<string, number>) {
+  const started: string[] = [];
+  const aborted: string[] = [];
+  const attempt = (url: string, signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      started.push(url);
+      const timer = setTimeout(() => resolve(`answer from ${url}`), delays[url]);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        aborted.push(url);
+        reject(new Error("aborted"));
+      });
+    });
+  return { attempt, started, aborted };
+}
+
+Deno.test("HedgePolicy: only enabled read-only methods are hedged, with per-method delays", () => {
+  assert.equal(new HedgePolicy().delayFor("eth_call"), null);
+  const policy = new HedgePolicy({
+    enabled: true,
+    delayMs: 200,
+    methods: { eth_getLogs: 1000, eth_chainId: false },
+  });
+  assert.equal(policy.delayFor("eth_call"), 200);
+  assert.equal(policy.delayFor("eth_getLogs"), 1000);
+  assert.equal(policy.delayFor("eth_chainId"), null);
+  assert.equal(policy.delayFor("eth_sendRawTransaction"), null);
+});
+
+Deno.test("runHedged: fires the next RPC only after the delay and aborts the loser", async () => {
+  const policy = new HedgePolicy({ enabled: true });
+  const upstream = fakeUpstream({ slow: 1000, fast: 10 });
+  const startedAt = Date.now();
+  const result = await runHedged(["slow", "fast"], upstream.attempt, policy, 50, noLog);
+
+  assert.equal(result, "answer from fast");
+  assert.ok(Date.now() - startedAt >= 50);
+  assert.deepEqual(upstream.started, ["slow", "fast"]);
+  assert.deepEqual(upstream.aborted, ["slow"]);
+});
+
+Deno.test("runHedged: an answer within the delay never fires a hedge", async () => {
+  const policy = new HedgePolicy({ enabled: true });
+  const upstream = fakeUpstream({ first: 10, second: 10 });
+  assert.equal(await runHedged(["first", "second"], upstream.attempt, policy, 50, noLog), "answer from first");
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.deepEqual(upstream.started, ["first"]);
+});
+
+Deno.test("runHedged: an exhausted budget stops hedging", async () => {
+  const policy = new HedgePolicy({ enabled: true, budgetRatio: 0 });
+  while (policy.tryAcquireHedge()) {
+    // Drain the burst allowance
+  }
+  const upstream = fakeUpstream({ slow: 80, fast: 10 });
+  assert.equal(await runHedged(["slow", "fast"], upstream.attempt, policy, 20, noLog), "answer from slow");
+  assert.deepEqual(upstream.started, ["slow"]);
+});
+
+Deno.test("runHedged: fails over on errors but returns deterministic errors right away", async () => {
+  const policy = new HedgePolicy({ enabled: true });
+  const tried: string[] = [];
+  const failing = (url: string) => {
+    tried.push(url);
+    return url === "down" ? Promise.reject(new Error("HTTP error 502")) : Promise.resolve(`answer from ${url}`);
+  };
+  assert.equal(await runHedged(["down", "up"], failing, policy, 1000, noLog), "answer from up");
+  assert.deepEqual(tried, ["down", "up"]);
+
+  tried.length = 0;
+  const reverting = (url: string) => {
+    tried.push(url);
+    return Promise.reject(new JsonRpcUpstreamError(3, "execution reverted"));
+  };
+  await assert.rejects(runHedged(["a", "b"], reverting, policy, 1000, noLog), /execution reverted/);
+  assert.deepEqual(tried, ["a"]);
+});
@@ -0,0 +1,167 @@
+import { isDeterministicRpcError } from "./rpc-errors.ts";
+import { isReadOnlyMethod } from "./rpc-methods.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface HedgingOptions {
+  enabled?: boolean;
+  delayMs?: number; // Wait this long for the first RPC before firing the next one
+  // Per-method override: a delay in ms, true for the default delay, or false to disable hedging
+  methods?: Record<string, number | boolean>;
+  maxHedgesPerRequest?: number; // Extra upstream requests a single call may fire
+  budgetRatio?: number; // Hedges allowed per regular request, e.g. 0.1 = at most ~10% extra load
+}
+
+const DEFAULT_HEDGE_DELAY_MS = 500;
+const DEFAULT_MAX_HEDGES_PER_REQUEST = 1;
+const DEFAULT_BUDGET_RATIO = 0.1;
+const MAX_BUDGET_TOKENS = 10; // Allows short bursts of hedging after a quiet period
+
+/**
+ * Decides whether and when a request may be hedged, and enforces a token-bucket budget
+ * so hedging cannot add more than `budgetRatio` extra upstream load.
+ */
+export class HedgePolicy {
+  private enabled: boolean;
+  private delayMs: number;
+  private methods: Record<string, number | boolean>;
+  private budgetRatio: number;
+  private budgetTokens = MAX_BUDGET_TOKENS;
+  readonly maxHedgesPerRequest: number;
+
+  constructor(options: HedgingOptions = {}) {
+    this.enabled = options.enabled ?? false;
+    this.delayMs = options.delayMs ?? DEFAULT_HEDGE_DELAY_MS;
+    this.methods = options.methods ?? {};
+    this.maxHedgesPerRequest = options.maxHedgesPerRequest ??
+      DEFAULT_MAX_HEDGES_PER_REQUEST;
+    this.budgetRatio = options.budgetRatio ?? DEFAULT_BUDGET_RATIO;
+  }
+
+  /**
+   * Returns the hedge delay for a method, or null when the method must not be hedged.
+   * Only read-only methods are ever hedged.
+   */
+  delayFor(method: string): number | null {
+    if (!this.enabled || !isReadOnlyMethod(method)) return null;
+    const override = this.methods[method];
+    if (override === false) return null;
+    if (typeof override === "number") return override;
+    return this.delayMs;
+  }
+
+  /** Credits the budget for one regular request. */
+  recordRequest(): void {
+    this.budgetTokens = Math.min(
+      MAX_BUDGET_TOKENS,
+      this.budgetTokens + this.budgetRatio,
+    );
+  }
+
+  /** Takes one hedge from the budget. Returns false when the budget is exhausted. */
+  tryAcquireHedge(): boolean {
+    if (this.budgetTokens < 1) return false;
+    this.budgetTokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * Tries `urls` in order. A failing attempt fails over to the next URL immediately; an attempt that has
+ * not answered within `delayMs` causes the next URL to be fired in parallel (within the policy's limits).
+ * The first successful answer wins and all other attempts are aborted.
+ * A deterministic upstream error (e.g. a revert) is returned immediately, like a success.
+ * Rejects with the last error if every attempt fails.
+ */
+export function runHedged<T>(
+  urls: string[],
+  attempt: (url: string, signal: AbortSignal) => Promise<T>,
+  policy: HedgePolicy,
+  delayMs: number,
+  log: LoggerFn,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const controllers = new Set<AbortController>();
+    const abortOthers = (winner: AbortController) => {
+      for (const other of controllers) {
+        if (other !== winner) other.abort();
+      }
+    };
+    let nextIndex = 0;
+    let pending = 0;
+    let hedgesFired = 0;
+    let settled = false;
+    let lastError: Error = new Error("No RPC URLs to try");
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+    };
+
+    const launch = (): boolean => {
+      const url = urls[nextIndex++];
+      if (url === undefined) return false;
+      const controller = new AbortController();
+      controllers.add(controller);
+      pending++;
+
+      attempt(url, controller.signal).then(
+        (result) => {
+          if (settled) return;
+          finish();
+          abortOthers(controller);
+          resolve(result);
+        },
+        (e) => {
+          controllers.delete(controller);
+          pending--;
+          if (settled) return;
+          lastError = e instanceof Error ? e : new Error(String(e));
+          if (isDeterministicRpcError(lastError)) {
+            finish();
+            abortOthers(controller);
+            reject(lastError);
+            return;
+          }
+          log(
+            "warn",
+            `Hedged attempt failed for ${url}: ${lastError.message}. Trying next RPC...`,
+          );
+          if (!launch() && pending === 0) {
+            finish();
+            reject(lastError);
+          }
+        },
+      );
+      return true;
+    };
+
+    const scheduleHedge = () => {
+      hedgeTimer = setTimeout(() => {
+        if (settled || hedgesFired >= policy.maxHedgesPerRequest) return;
+        if (nextIndex >= urls.length || !policy.tryAcquireHedge()) return;
+        hedgesFired++;
+        log(
+          "debug",
+          `No answer after ${delayMs}ms, hedging to ${urls[nextIndex]}`,
+        );
+        launch();
+        scheduleHedge();
+      }, delayMs);
+    };
+
+    policy.recordRequest();
+    if (!launch()) {
+      finish();
+      reject(lastError);
+      return;
+    }
+    scheduleHedge();
+  });
+}
@@ -1,10 +1,41 @@
+import type { CacheStoreOption } from "./cache-manager.ts"; // Export type
+import type { CacheEntry, CacheKey, CacheSetOptions, CacheStore } from "./cache-store.ts"; // Export type
+import { LocalStorageCacheStore, MemoryCacheStore } from "./cache-store.ts";
+import { DenoKvCacheStore } from "./deno-kv-cache-store.ts";
+import { FileCacheStore } from "./file-cache-store.ts";
+import type { FlakyDownRankOptions, HealthHistoryOptions, HealthSample, RpcUptimeStats } from "./health-history.ts"; // Export type
 import type { ReadContractOptions } from "./contract-utils.ts"; // Export type
 import { readContract } from "./contract-utils.ts";
 import type { Permit2RpcManagerOptions } from "./permit2-rpc-manager.ts"; // Export type
 import { Permit2RpcManager } from "./permit2-rpc-manager.ts";
+import type { SelectionContext, SelectionOptions, SelectionStrategy } from "./selection-strategy.ts"; // Export type
+import type { RpcEndpointConfig, RpcWhitelist, TrackingLevel } from "./whitelist-schema.ts"; // Export type
+import type { WhitelistSourceOptions } from "./whitelist-watcher.ts"; // Export type
 
 // Export the main manager class and helper function
 export { Permit2RpcManager, readContract };
 
+// Export the built-in cache store backends
+export { DenoKvCacheStore, FileCacheStore, LocalStorageCacheStore, MemoryCacheStore };
+
 // Export types
-export type { Permit2RpcManagerOptions, ReadContractOptions };
+export type {
+  CacheEntry,
+  CacheKey,
+  CacheSetOptions,
+  CacheStore,
+  CacheStoreOption,
+  FlakyDownRankOptions,
+  HealthHistoryOptions,
+  HealthSample,
+  Permit2RpcManagerOptions,
+  ReadContractOptions,
+  RpcEndpointConfig,
+  RpcUptimeStats,
+  RpcWhitelist,
+  SelectionContext,
+  SelectionOptions,
+  SelectionStrategy,
+  TrackingLevel,
+  WhitelistSourceOptions,
+};
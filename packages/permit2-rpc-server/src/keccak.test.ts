@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { hexToBytes, keccak256 } from "./keccak.ts";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+Deno.test("keccak256: known vectors", () => {
+  assert.equal(keccak256(new Uint8Array()), "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+  assert.equal(keccak256(encode("abc")), "0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45");
+  // RLP of the empty list: the Ethereum empty uncles hash
+  assert.equal(keccak256(hexToBytes("0xc0")), "0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347");
+});
+
+Deno.test("keccak256: inputs spanning the rate boundary", () => {
+  // Exactly one 136-byte block needs a second, padding-only block
+  assert.equal(
+    keccak256(encode("a".repeat(136))),
+    "0xa6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e",
+  );
+  assert.equal(
+    keccak256(encode("a".repeat(300))),
+    "0x5b7e0e47a96f32a88b4f14ca177982790807c40e1a105742ba0fc1babe1ef826",
+  );
+});
+
+Deno.test("hexToBytes: decodes 0x-prefixed hex and rejects malformed input", () => {
+  assert.deepEqual(hexToBytes("0x00ff10"), new Uint8Array([0, 255, 16]));
+  assert.deepEqual(hexToBytes("0x"), new Uint8Array());
+  assert.throws(() => hexToBytes("00ff"), /Invalid hex string/);
+  assert.throws(() => hexToBytes("0x0"), /Invalid hex string/);
+  assert.throws(() => hexToBytes("0xzz"), /Invalid hex string/);
+});
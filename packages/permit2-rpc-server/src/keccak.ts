@@ -0,0 +1,125 @@
+// Minimal Keccak-256 (the pre-SHA3 padding used by Ethereum). The server has no external dependencies,
+// and Web Crypto does not provide Keccak. Inputs here are small (signed transactions, bytecode).
+
+const MASK_64 = (1n << 64n) - 1n;
+const RATE_BYTES = 136; // 1088-bit rate for a 256-bit output
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+];
+
+// Rotation offsets indexed by x + 5 * y
+// deno-fmt-ignore
+const ROTATION_OFFSETS = [
+  0n, 1n, 62n, 28n, 27n,
+  36n, 44n, 6n, 55n, 20n,
+  3n, 10n, 43n, 25n, 39n,
+  41n, 45n, 15n, 21n, 8n,
+  18n, 2n, 61n, 56n, 14n,
+];
+
+function rotateLeft(lane: bigint, offset: bigint): bigint {
+  if (offset === 0n) return lane;
+  return ((lane << offset) | (lane >> (64n - offset))) & MASK_64;
+}
+
+function keccakF1600(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotateLeft(c[(x + 1) % 5], 1n);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    // Rho and Pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(
+          state[x + 5 * y],
+          ROTATION_OFFSETS[x + 5 * y],
+        );
+      }
+    }
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK_64 & b[((x + 2) % 5) + y]);
+      }
+    }
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
+
+/**
+ * Computes the Keccak-256 hash of the given bytes and returns it as a 0x-prefixed hex string.
+ */
+export function keccak256(data: Uint8Array): string {
+  const padded = new Uint8Array(
+    Math.floor(data.length / RATE_BYTES + 1) * RATE_BYTES,
+  );
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF1600(state);
+  }
+
+  let hex = "0x";
+  for (let lane = 0; lane < 4; lane++) {
+    for (let i = 0; i < 8; i++) {
+      hex += ((state[lane] >> BigInt(8 * i)) & 0xffn).toString(16).padStart(2, "0");
+    }
+  }
+  return hex;
+}
+
+/**
+ * Decodes a 0x-prefixed hex string into bytes. Throws on malformed input.
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Error("Invalid hex string");
+  }
+  const bytes = new Uint8Array((hex.length - 2) / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 + i * 2, 4 + i * 2), 16);
+  }
+  return bytes;
+}
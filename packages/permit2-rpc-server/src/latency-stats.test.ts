@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { percentile, selectLatency, summarizeSamples } from "./latency-stats.ts";
+
+Deno.test("percentile: nearest rank over unsorted samples", () => {
+  const samples = [50, 10, 40, 20, 30];
+  assert.equal(percentile(samples, 50), 30);
+  assert.equal(percentile(samples, 95), 50);
+  assert.equal(percentile(samples, 0), 10);
+  assert.equal(percentile(samples, 100), 50);
+  assert.equal(percentile([7], 95), 7);
+  assert.ok(Number.isNaN(percentile([], 50)));
+  assert.deepEqual(samples, [50, 10, 40, 20, 30]); // Input left unsorted
+});
+
+Deno.test("summarizeSamples: folds the run's median into the previous EWMA", () => {
+  assert.deepEqual(summarizeSamples([100, 200, 300], undefined, 0.3), { p50: 200, p95: 300, ewma: 200 });
+  assert.deepEqual(summarizeSamples([100, 200, 300], 100, 0.3), { p50: 200, p95: 300, ewma: 130 });
+  // A failed previous run (Infinity) does not poison the average
+  assert.equal(summarizeSamples([80], Infinity, 0.3).ewma, 80);
+});
+
+Deno.test("selectLatency: picks the configured statistic, falling back to the single timing", () => {
+  const result = { latency: 120, p50: 100, p95: 180, ewma: 110 };
+  assert.equal(selectLatency(result, "latest"), 120);
+  assert.equal(selectLatency(result, "p50"), 100);
+  assert.equal(selectLatency(result, "p95"), 180);
+  assert.equal(selectLatency(result, "ewma"), 110);
+  assert.equal(selectLatency({ latency: 90 }, "ewma"), 90);
+});
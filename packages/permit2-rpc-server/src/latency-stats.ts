@@ -0,0 +1,47 @@
+// Summary statistics over latency samples, used to rank RPCs on more than a single timing.
+
+export type LatencyStatistic = "latest" | "p50" | "p95" | "ewma";
+
+export interface LatencySummary {
+  p50: number;
+  p95: number;
+  ewma: number; // Across test runs: alpha * this run's p50 + (1 - alpha) * previous EWMA
+}
+
+/**
+ * Returns the p-th percentile (0-100) of the samples using nearest-rank, or NaN for no samples.
+ */
+export function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) return NaN;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Summarizes one test run's samples, folding its median into the EWMA carried over from earlier runs.
+ */
+export function summarizeSamples(
+  samples: number[],
+  previousEwma: number | undefined,
+  alpha: number,
+): LatencySummary {
+  const p50 = percentile(samples, 50);
+  const p95 = percentile(samples, 95);
+  const ewma = previousEwma !== undefined && Number.isFinite(previousEwma)
+    ? alpha * p50 + (1 - alpha) * previousEwma
+    : p50;
+  return { p50, p95, ewma: Math.round(ewma) };
+}
+
+/**
+ * Picks the configured statistic from a result, falling back to its single `latency` timing when the
+ * statistic was not recorded (e.g. results cached before sampling existed, or failed tests).
+ */
+export function selectLatency(
+  result: { latency: number } & Partial<LatencySummary>,
+  statistic: LatencyStatistic,
+): number {
+  if (statistic === "latest") return result.latency;
+  return result[statistic] ?? result.latency;
+}
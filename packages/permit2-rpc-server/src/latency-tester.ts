@@ -1,4 +1,13 @@
-import PERMIT2_BYTECODE_PREFIX from "./permit2-bytecode.ts";
+import { CapabilityProber } from "./capability-prober.ts";
+import {
+  type ContractCheckResult,
+  ContractRegistry,
+  type ContractRegistryConfig,
+  verifyContractCode,
+} from "./contract-registry.ts";
+import { summarizeSamples } from "./latency-stats.ts";
+import type { RpcCapabilities } from "./rpc-capabilities.ts";
+import type { HeadersFn } from "./whitelist-schema.ts";
 
 // --- Interfaces ---
 interface JsonRpcRequest {
@@ -27,8 +36,10 @@ type EthSyncingResult =
 // Restore 'wrong_bytecode' status
 type LatencyTestStatus =
   | "ok"
+  | "lagging"
   | "syncing"
   | "wrong_bytecode"
+  | "wrong_chain"
   | "timeout"
   | "http_error"
   | "rpc_error"
@@ -39,6 +50,24 @@ export interface LatencyTestResult {
   latency: number; // Infinity indicates failure
   status: LatencyTestStatus;
   error?: string; // Optional error message string
+  capabilities?: RpcCapabilities; // Probed optional features (responsive nodes only)
+  blockNumber?: number; // Head block reported by the node during the test
+  blockLag?: number; // Blocks behind the chain's consensus head (0 = at the head)
+  samples?: number[]; // eth_blockNumber round-trip timings of this run (the check in `latency` is not one)
+  p50?: number; // Median of `samples`
+  p95?: number;
+  ewma?: number; // Exponentially weighted moving average of p50 across test runs
+  contracts?: ContractCheckResult[]; // Per-contract code verification (synced nodes only)
+}
+
+export interface LatencyTesterOptions {
+  probeCapabilities?: boolean; // Probe archive/trace/debug/getLogs range/batch support (default true)
+  capabilitiesTtlMs?: number; // How long probed capabilities are reused across test runs (default 24 hours)
+  maxBlockLag?: number; // Blocks behind the consensus head before an ok node is marked lagging
+  chainMaxBlockLag?: Record<number, number>; // Per-chain overrides, e.g. for fast-block chains
+  samples?: number; // Timings taken per responsive node and run (default 3)
+  ewmaAlpha?: number; // Weight of the newest run in the EWMA (default 0.3)
+  contracts?: ContractRegistryConfig; // Contracts whose code is verified (default: Permit2 on every chain)
 }
 
 // Define a logger type (can be shared or defined per file)
@@ -50,21 +79,116 @@ type LoggerFn = (
 
 // --- Constants ---
 const DEFAULT_TIMEOUT_MS = 5000;
-const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3"; // Restore address
+const DEFAULT_MAX_BLOCK_LAG = 10;
+const DEFAULT_SAMPLES = 3;
+const DEFAULT_EWMA_ALPHA = 0.3;
+const DEFAULT_CAPABILITIES_TTL_MS = 24 * 60 * 60 * 1000;
+// Statuses of nodes that answered, and whose capabilities are therefore worth probing
+const RESPONSIVE_STATUSES: LatencyTestStatus[] = ["ok", "syncing", "wrong_bytecode"];
 
 // --- Class ---
 export class LatencyTester {
   private timeoutMs: number;
   private log: LoggerFn;
+  private prober: CapabilityProber | null;
+  private capabilitiesTtlMs: number;
+  private maxBlockLag: number;
+  private chainMaxBlockLag: Record<number, number>;
+  private samples: number;
+  private ewmaAlpha: number;
+  private contractRegistry: ContractRegistry;
+  private headersFor: HeadersFn | null;
 
-  constructor(timeoutMs: number = DEFAULT_TIMEOUT_MS, logger?: LoggerFn) {
+  constructor(
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+    logger?: LoggerFn,
+    options: LatencyTesterOptions = {},
+    headersFor?: HeadersFn,
+  ) {
     this.timeoutMs = timeoutMs;
+    this.headersFor = headersFor ?? null;
     // Use provided logger or a no-op function if none is given
     this.log = logger || (() => {});
+    this.prober = (options.probeCapabilities ?? true) ? new CapabilityProber(timeoutMs, this.log, headersFor) : null;
+    this.capabilitiesTtlMs = options.capabilitiesTtlMs ?? DEFAULT_CAPABILITIES_TTL_MS;
+    this.maxBlockLag = options.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+    this.chainMaxBlockLag = options.chainMaxBlockLag ?? {};
+    this.samples = Math.max(1, options.samples ?? DEFAULT_SAMPLES);
+    this.ewmaAlpha = options.ewmaAlpha ?? DEFAULT_EWMA_ALPHA;
+    this.contractRegistry = new ContractRegistry(options.contracts);
+  }
+
+  /**
+   * Runs the latency test and, for responsive nodes, takes extra timing samples. Capabilities change
+   * rarely, so the previous run's are carried over (with the head block updated); `probeCapabilities`
+   * refreshes them separately once they are older than `capabilitiesTtlMs`.
+   */
+  private async testAndSample(
+    url: string,
+    chainId?: number,
+    previous?: LatencyTestResult,
+  ): Promise<LatencyTestResult> {
+    const result = await this.testSingleRpc(url, chainId);
+    if (!RESPONSIVE_STATUSES.includes(result.status)) return result;
+    await this.collectSamples(url, chainId, result, previous);
+    const known = previous?.capabilities;
+    if (known) {
+      result.capabilities = { ...known, headBlock: result.blockNumber ?? known.headBlock };
+    }
+    return result;
+  }
+
+  /**
+   * Probes the responsive RPCs of a test run whose capabilities are unknown or older than
+   * `capabilitiesTtlMs`, and returns the new capabilities by URL. Kept apart from `testRpcUrls` because
+   * probing takes several sequential calls per RPC and must not hold up the latency results.
+   */
+  async probeCapabilities(
+    results: Record<string, LatencyTestResult>,
+    chainId?: number,
+  ): Promise<Record<string, RpcCapabilities>> {
+    const prober = this.prober;
+    if (!prober) return {};
+    const due = Object.values(results).filter((result) =>
+      RESPONSIVE_STATUSES.includes(result.status) &&
+      (result.capabilities?.probedAt === undefined ||
+        Date.now() - result.capabilities.probedAt >= this.capabilitiesTtlMs)
+    );
+    const probed = await Promise.all(
+      due.map(async (result) => [result.url, await prober.probe(result.url, chainId)] as const),
+    );
+    return Object.fromEntries(probed);
+  }
+
+  /**
+   * Times sequential eth_blockNumber round trips and records p50/p95 and the EWMA carried over from the
+   * previous run. The combined check is left out so every sample times the same request. A failed
+   * sample ends sampling early; without any samples the result keeps only `latency`.
+   */
+  private async collectSamples(
+    url: string,
+    chainId: number | undefined,
+    result: LatencyTestResult,
+    previous?: LatencyTestResult,
+  ): Promise<void> {
+    const samples: number[] = [];
+    while (samples.length < this.samples) {
+      const startTime = Date.now();
+      try {
+        const response = await this._makeRpcCall(url, chainId, "eth_blockNumber", []);
+        if (response.error) break;
+      } catch {
+        break;
+      }
+      samples.push(Date.now() - startTime);
+    }
+    if (samples.length === 0) return;
+    Object.assign(result, { samples, ...summarizeSamples(samples, previous?.ewma, this.ewmaAlpha) });
   }
 
   private async _makeRpcCall(
     url: string,
+    chainId: number | undefined,
     method: string,
     params: unknown[], // Changed any[] to unknown[]
   ): Promise<JsonRpcResponse> {
@@ -80,7 +204,10 @@ export class LatencyTester {
     try {
       response = await fetch(url, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          ...(chainId !== undefined ? this.headersFor?.(chainId, url) : {}),
+          "Content-Type": "application/json",
+        },
         body: JSON.stringify(requestBody),
         signal: controller.signal,
       });
@@ -97,21 +224,27 @@ export class LatencyTester {
   }
 
   /**
-   * Tests latency, sync status, and Permit2 bytecode for a single RPC URL.
+   * Tests latency, chain ID, sync status, and the code of the registered contracts (Permit2 by default)
+   * for a single RPC URL. The chain ID is only verified when the expected one is given.
    * Returns a detailed result object.
    */
-  private async testSingleRpc(url: string): Promise<LatencyTestResult> {
+  private async testSingleRpc(url: string, chainId?: number): Promise<LatencyTestResult> {
+    const contracts = this.contractRegistry.contractsFor(chainId);
     const startTime = Date.now();
-    let getCodeResponse: JsonRpcResponse | null = null;
+    let getCodeResponses: JsonRpcResponse[] = [];
     let syncingResponse: JsonRpcResponse | null = null;
+    let blockNumberResponse: JsonRpcResponse | null = null;
+    let chainIdResponse: JsonRpcResponse | null = null;
     // let error: unknown = null; // Removed unused variable
     let status: LatencyTestStatus = "network_error"; // Default to network error
 
     try {
       // Restore concurrent calls
-      [getCodeResponse, syncingResponse] = await Promise.all([
-        this._makeRpcCall(url, "eth_getCode", [PERMIT2_ADDRESS, "latest"]),
-        this._makeRpcCall(url, "eth_syncing", []),
+      [getCodeResponses, syncingResponse, blockNumberResponse, chainIdResponse] = await Promise.all([
+        Promise.all(contracts.map((contract) => this._makeRpcCall(url, chainId, "eth_getCode", [contract.address, "latest"]))),
+        this._makeRpcCall(url, chainId, "eth_syncing", []),
+        this._makeRpcCall(url, chainId, "eth_blockNumber", []),
+        this._makeRpcCall(url, chainId, "eth_chainId", []),
       ]);
     } catch (e) { // Catch as unknown
       const err = e instanceof Error ? e : new Error(String(e)); // Ensure Error type
@@ -139,12 +272,36 @@ export class LatencyTester {
     }
 
     const latency = Date.now() - startTime;
+    // A missing head block is not a failure by itself; the node just can't be checked for lag
+    const blockNumber = typeof blockNumberResponse?.result === "string"
+      ? parseInt(blockNumberResponse.result, 16)
+      : undefined;
+
+    // A node serving another chain must never be used, whatever else it reports
+    if (chainId !== undefined) {
+      if (chainIdResponse?.error) {
+        status = "rpc_error";
+        const errMsg = `eth_chainId RPC error ${chainIdResponse.error.code} - ${chainIdResponse.error.message}`;
+        this.log("warn", `Latency test failed for ${url}: ${errMsg}`);
+        return { url, latency: Infinity, status, error: errMsg };
+      }
+      const reportedChainId = typeof chainIdResponse?.result === "string"
+        ? parseInt(chainIdResponse.result, 16)
+        : NaN;
+      if (reportedChainId !== chainId) {
+        status = "wrong_chain";
+        const errMsg = `eth_chainId returned ${JSON.stringify(chainIdResponse?.result)}, expected ${chainId}`;
+        this.log("error", `RPC ${url} is configured for chain ${chainId} but serves another chain: ${errMsg}`);
+        return { url, latency: Infinity, status, error: errMsg };
+      }
+    }
 
     // Check for RPC errors first
-    if (getCodeResponse?.error) {
+    const getCodeErrorIndex = getCodeResponses.findIndex((response) => response?.error);
+    if (getCodeErrorIndex !== -1) {
       status = "rpc_error";
-      const errMsg =
-        `eth_getCode RPC error ${getCodeResponse.error.code} - ${getCodeResponse.error.message}`;
+      const { code, message } = getCodeResponses[getCodeErrorIndex].error!;
+      const errMsg = `eth_getCode RPC error ${code} - ${message} (${contracts[getCodeErrorIndex].name})`;
       this.log("warn", `Latency test failed for ${url}: ${errMsg}`);
       return { url, latency: Infinity, status, error: errMsg };
     }
@@ -164,62 +321,70 @@ export class LatencyTester {
       })`;
       this.log("warn", `RPC ${url} is syncing: ${errMsg}`);
       // Return actual latency for syncing nodes so they can be used as fallback
-      return { url, latency, status, error: errMsg };
-    }
-
-    // If node is synced, check Permit2 bytecode
-    if (typeof getCodeResponse?.result !== "string") {
-      status = "wrong_bytecode";
-      const errMsg = `Invalid bytecode response type: ${typeof getCodeResponse
-        ?.result}`;
-      this.log("warn", `RPC ${url} returned invalid bytecode: ${errMsg}`);
-      // Return actual latency even for wrong bytecode, in case it's needed for basic operations
-      return { url, latency, status, error: errMsg };
+      return { url, latency, status, error: errMsg, blockNumber };
     }
 
-    // Log first 100 chars of both expected and received for debugging (use debug level)
-    this.log(
-      "debug",
-      `\nExpected Permit2 prefix (first 100 chars): ${
-        PERMIT2_BYTECODE_PREFIX.slice(0, 100)
-      }`,
-    );
-    this.log(
-      "debug",
-      `Received bytecode (first 100 chars): ${
-        getCodeResponse.result.slice(0, 100)
-      }`,
-    );
-
-    if (!getCodeResponse.result.startsWith(PERMIT2_BYTECODE_PREFIX)) {
+    // If node is synced, check the registered contracts' code
+    const contractResults = contracts.map((contract, index) => {
+      const code = getCodeResponses[index]?.result;
+      return typeof code === "string" ? verifyContractCode(contract, code) : {
+        name: contract.name,
+        address: contract.address,
+        status: "mismatch" as const,
+        detail: `invalid eth_getCode response type: ${typeof code}`,
+      };
+    });
+    const failedContracts = contractResults.filter((result) => result.status !== "ok");
+    if (failedContracts.length > 0) {
       status = "wrong_bytecode";
-      // Calculate common prefix length for better error reporting
-      let commonPrefixLength = 0;
-      while (
-        commonPrefixLength < PERMIT2_BYTECODE_PREFIX.length &&
-        commonPrefixLength < getCodeResponse.result.length &&
-        PERMIT2_BYTECODE_PREFIX[commonPrefixLength] ===
-          getCodeResponse.result[commonPrefixLength]
-      ) {
-        commonPrefixLength++;
-      }
-      const errMsg = `Bytecode mismatch at position ${commonPrefixLength}`;
+      const errMsg = failedContracts.map((result) => `${result.name} ${result.status}: ${result.detail}`).join("; ");
       this.log("warn", `RPC ${url} has incorrect bytecode: ${errMsg}`);
       // Return actual latency even for wrong bytecode, in case it's needed for basic operations
-      return { url, latency, status, error: errMsg };
+      return { url, latency, status, error: errMsg, blockNumber, contracts: contractResults };
     }
 
     // All checks passed - node is synced and has correct bytecode
     status = "ok";
     this.log("debug", `RPC ${url} passed all checks (${latency}ms)`);
-    return { url, latency, status };
+    return { url, latency, status, blockNumber, contracts: contractResults };
+  }
+
+  /**
+   * Computes the chain's consensus head from the reported block numbers and records each node's lag.
+   * The consensus head is the second-highest report, so a single node with a bogus future head
+   * cannot mark every other node as lagging. `ok` nodes beyond the threshold become `lagging`.
+   */
+  private applyBlockLag(
+    resultMap: Record<string, LatencyTestResult>,
+    chainId?: number,
+  ): void {
+    const heads = Object.values(resultMap)
+      .map((result) => result.blockNumber)
+      .filter((blockNumber): blockNumber is number => typeof blockNumber === "number" && !isNaN(blockNumber))
+      .sort((a, b) => b - a);
+    if (heads.length === 0) return;
+    const consensusHead = heads[Math.min(1, heads.length - 1)];
+    const maxBlockLag = (chainId !== undefined ? this.chainMaxBlockLag[chainId] : undefined) ?? this.maxBlockLag;
+
+    for (const result of Object.values(resultMap)) {
+      if (typeof result.blockNumber !== "number" || isNaN(result.blockNumber)) continue;
+      result.blockLag = Math.max(0, consensusHead - result.blockNumber);
+      if (result.status === "ok" && result.blockLag > maxBlockLag) {
+        result.status = "lagging";
+        result.error = `Node is ${result.blockLag} blocks behind the consensus head ${consensusHead}`;
+        this.log("warn", `RPC ${result.url} is lagging: ${result.error}`);
+      }
+    }
   }
 
   /**
    * Tests a list of RPC URLs concurrently and returns a map of URL to detailed results.
+   * The optional chain ID selects per-chain thresholds; the previous run's results seed each URL's EWMA.
    */
   async testRpcUrls(
     urls: string[],
+    chainId?: number,
+    previousResults?: Record<string, LatencyTestResult> | null,
   ): Promise<Record<string, LatencyTestResult>> {
     if (!urls || urls.length === 0) return {};
     this.log(
@@ -228,7 +393,7 @@ export class LatencyTester {
     );
 
     const results = await Promise.allSettled(
-      urls.map((url) => this.testSingleRpc(url)),
+      urls.map((url) => this.testAndSample(url, chainId, previousResults?.[url])),
     );
     const resultMap: Record<string, LatencyTestResult> = {};
 
@@ -258,6 +423,18 @@ export class LatencyTester {
       }
     });
 
+    this.applyBlockLag(resultMap, chainId);
+    const wrongChainUrls = Object.values(resultMap)
+      .filter((result) => result.status === "wrong_chain")
+      .map((result) => result.url);
+    if (wrongChainUrls.length > 0) {
+      this.log(
+        "error",
+        `${wrongChainUrls.length} whitelisted RPCs for chain ${chainId} serve a different chain and were excluded: ${
+          wrongChainUrls.join(", ")
+        }`,
+      );
+    }
     this.log("info", `Latency tests completed.`);
     return resultMap;
   }
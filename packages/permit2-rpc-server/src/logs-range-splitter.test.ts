@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { isRangeLimitError, LogsRangeSplitter } from "./logs-range-splitter.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+const hex = (value: number) => `0x${value.toString(16)}`;
+
+// One log per block of the filter's range, as a node would return them
+function logsFor(filter: Record<string, unknown>): unknown[] {
+  const from = parseInt(filter.fromBlock as string, 16);
+  const to = parseInt(filter.toBlock as string, 16);
+  return Array.from({ length: to - from + 1 }, (_, index) => ({
+    blockNumber: hex(from + index),
+    blockHash: `0xblock${from + index}`,
+    transactionHash: `0xtx${from + index}`,
+    logIndex: "0x0",
+  }));
+}
+
+Deno.test("isRangeLimitError: matches provider range and result-size messages", () => {
+  for (
+    const message of [
+      "query returned more than 10000 results",
+      "block range is too wide",
+      "exceed maximum block range: 5000",
+      "eth_getLogs is limited to 1000 blocks",
+      "query exceeds max results 20000",
+      "Log response size exceeded",
+    ]
+  ) {
+    assert.equal(isRangeLimitError(new JsonRpcUpstreamError(-32005, message)), true, message);
+  }
+});
+
+Deno.test("isRangeLimitError: ignores rate limits and other failures", () => {
+  for (const message of ["exceeds rate limit", "daily request limit exceeded", "execution reverted", "timeout"]) {
+    assert.equal(isRangeLimitError(new JsonRpcUpstreamError(-32005, message)), false, message);
+  }
+  assert.equal(isRangeLimitError("block range is too wide"), false);
+});
+
+Deno.test("LogsRangeSplitter: splits the range into chunks and merges them in order", async () => {
+  const ranges: string[] = [];
+  const splitter = new LogsRangeSplitter((_chainId, _url, filter) => {
+    ranges.push(`${filter.fromBlock}-${filter.toBlock}`);
+    return Promise.resolve(logsFor(filter));
+  });
+  const logs = await splitter.fetch(1, ["a", "b"], { address: "0x1" }, 100, 349, 100) as { blockNumber: string }[];
+  assert.deepEqual(ranges.sort(), ["0x12c-0x15d", "0x64-0xc7", "0xc8-0x12b"]);
+  assert.equal(logs.length, 250);
+  assert.deepEqual(logs.map((log) => parseInt(log.blockNumber, 16)), Array.from({ length: 250 }, (_, i) => 100 + i));
+});
+
+Deno.test("LogsRangeSplitter: halves chunks still rejected for their range", async () => {
+  const splitter = new LogsRangeSplitter((_chainId, _url, filter) => {
+    const span = parseInt(filter.toBlock as string, 16) - parseInt(filter.fromBlock as string, 16) + 1;
+    if (span > 30) return Promise.reject(new JsonRpcUpstreamError(-32005, "block range is too wide"));
+    return Promise.resolve(logsFor(filter));
+  });
+  const logs = await splitter.fetch(1, ["a"], {}, 0, 99, 100);
+  assert.equal(logs.length, 100);
+});
+
+Deno.test("LogsRangeSplitter: halving stays within the parallel limit and the learned size is reused", async () => {
+  const ranges: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const splitter = new LogsRangeSplitter(async (_chainId, _url, filter) => {
+    const span = parseInt(filter.toBlock as string, 16) - parseInt(filter.fromBlock as string, 16) + 1;
+    ranges.push(span);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+    if (span > 25) throw new JsonRpcUpstreamError(-32005, "exceed maximum block range: 25");
+    return logsFor(filter);
+  });
+  const logs = await splitter.fetch(1, ["a", "b"], {}, 0, 799, 100);
+  assert.equal(logs.length, 800);
+  assert.ok(maxInFlight <= 4, `${maxInFlight} requests in flight`);
+  // Only the four 100-block chunks already in flight are tried at full size, and once 25 blocks fit
+  // nothing larger is sent (halving every chunk on its own would be rejected 24 times)
+  assert.ok(ranges.slice(4).every((span) => span <= 50));
+  assert.ok(ranges.filter((span) => span > 25).length <= 8);
+});
+
+Deno.test("LogsRangeSplitter: drops duplicate logs and fails over to the next RPC", async () => {
+  const urls: string[] = [];
+  const splitter = new LogsRangeSplitter((_chainId, url, filter) => {
+    urls.push(url);
+    if (url === "down") return Promise.reject(new Error("HTTP error 502 Bad Gateway"));
+    const logs = logsFor(filter);
+    return Promise.resolve([...logs, ...logs]);
+  });
+  const logs = await splitter.fetch(1, ["down", "up"], {}, 0, 9, 10);
+  assert.equal(logs.length, 10);
+  assert.deepEqual(urls, ["down", "up"]);
+});
+
+Deno.test("LogsRangeSplitter: refuses queries that need too many chunks", async () => {
+  const splitter = new LogsRangeSplitter(() => Promise.resolve([]));
+  await assert.rejects(splitter.fetch(1, ["a"], {}, 0, 1_000_000, 100), /too large to split/);
+  await assert.rejects(splitter.fetch(1, [], {}, 0, 10), /No RPC URLs/);
+});
@@ -0,0 +1,168 @@
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+interface LogEntry {
+  blockNumber?: string;
+  blockHash?: string;
+  transactionHash?: string;
+  logIndex?: string;
+}
+
+type LogsAttempt = (chainId: number, url: string, filter: Record<string, unknown>) => Promise<unknown>;
+
+// Provider messages for "your eth_getLogs query spans too much", e.g.
+// "query returned more than 10000 results", "block range is too wide", "exceed maximum block range: 5000".
+// Only block-range and result-size wording: "exceeds rate limit" is a rate limit, not a range problem
+const RANGE_LIMIT_PATTERN =
+  /block range|range (is )?too (large|wide|big)|exceeds? .*(block range|results|response size)|too many (blocks|results|logs)|query returned more than|max(imum)? (block )?range|limited to \d+ blocks|response size/i;
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const MAX_CHUNKS = 500; // Refuse to split a single query into more upstream calls than this
+const MAX_PARALLEL_CHUNKS = 4;
+
+/**
+ * Returns true when an error looks like a provider rejecting an eth_getLogs query for its range size.
+ */
+export function isRangeLimitError(error: unknown): boolean {
+  return error instanceof Error && RANGE_LIMIT_PATTERN.test(error.message);
+}
+
+function hexToNumber(value: string | undefined): number {
+  return value ? parseInt(value, 16) : 0;
+}
+
+/**
+ * Splits an eth_getLogs query into block-range chunks, fetches them in parallel across several RPCs,
+ * and merges the logs back into one ordered, de-duplicated list.
+ * A chunk that is still rejected for its range is halved until it fits, and the remaining chunks are
+ * fetched at the size that fit.
+ */
+export class LogsRangeSplitter {
+  private attempt: LogsAttempt;
+  private log: LoggerFn;
+
+  constructor(attempt: LogsAttempt, logger?: LoggerFn) {
+    this.attempt = attempt;
+    this.log = logger || (() => {});
+  }
+
+  async fetch(
+    chainId: number,
+    urls: string[],
+    filter: Record<string, unknown>,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number = DEFAULT_CHUNK_SIZE,
+  ): Promise<unknown[]> {
+    if (urls.length === 0) throw new Error("No RPC URLs available for eth_getLogs");
+    const totalBlocks = toBlock - fromBlock + 1;
+    if (Math.ceil(totalBlocks / chunkSize) > MAX_CHUNKS) {
+      throw new Error(
+        `eth_getLogs range of ${totalBlocks} blocks is too large to split into ${chunkSize}-block chunks`,
+      );
+    }
+
+    const chunks: [number, number][] = [];
+    for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+      chunks.push([start, Math.min(start + chunkSize - 1, toBlock)]);
+    }
+    this.log(
+      "info",
+      `Splitting eth_getLogs over ${totalBlocks} blocks into ${chunks.length} chunks across ${urls.length} RPCs`,
+    );
+
+    // Worker pool over a queue of chunks, each chunk starting on a different RPC. A chunk rejected for
+    // its range goes back to the front of the queue as two halves, and no later chunk exceeds that size.
+    const queue = [...chunks];
+    const results: unknown[][] = [];
+    let size = chunkSize;
+    let taken = 0;
+    await new Promise<void>((resolve, reject) => {
+      let running = 0;
+      let failed = false;
+      const pump = () => {
+        if (failed) return;
+        if (queue.length === 0 && running === 0) return resolve();
+        while (running < MAX_PARALLEL_CHUNKS && queue.length > 0) {
+          const [start, chunkEnd] = queue.shift() as [number, number];
+          const end = Math.min(chunkEnd, start + size - 1);
+          if (end < chunkEnd) queue.unshift([end + 1, chunkEnd]);
+          running++;
+          this.fetchChunk(chainId, urls, taken++, filter, start, end)
+            .then((logs) => {
+              if (logs) {
+                results.push(logs);
+                return;
+              }
+              const middle = Math.floor((start + end) / 2);
+              size = Math.min(size, middle - start + 1);
+              queue.unshift([start, middle], [middle + 1, end]);
+            }, (error) => {
+              failed = true;
+              reject(error);
+            })
+            .finally(() => {
+              running--;
+              pump();
+            });
+        }
+      };
+      pump();
+    });
+
+    return this.merge(results.flat());
+  }
+
+  // Resolves to null when an RPC rejects the chunk for its range (and it can still be halved)
+  private async fetchChunk(
+    chainId: number,
+    urls: string[],
+    chunkIndex: number,
+    filter: Record<string, unknown>,
+    start: number,
+    end: number,
+  ): Promise<unknown[] | null> {
+    const chunkFilter = {
+      ...filter,
+      fromBlock: `0x${start.toString(16)}`,
+      toBlock: `0x${end.toString(16)}`,
+    };
+    let lastError: Error | null = null;
+    for (let i = 0; i < urls.length; i++) {
+      const url = urls[(chunkIndex + i) % urls.length];
+      try {
+        const logs = await this.attempt(chainId, url, chunkFilter);
+        if (!Array.isArray(logs)) throw new Error("eth_getLogs returned a non-array result");
+        return logs;
+      } catch (e) {
+        lastError = e instanceof Error ? e : new Error(String(e));
+        if (isRangeLimitError(lastError) && end > start) {
+          this.log("debug", `Chunk ${start}-${end} too large for ${url}, halving`);
+          return null;
+        }
+        this.log("warn", `eth_getLogs chunk ${start}-${end} failed on ${url}: ${lastError.message}`);
+      }
+    }
+    throw lastError ?? new Error(`eth_getLogs chunk ${start}-${end} failed`);
+  }
+
+  // Orders logs by block and log index and drops duplicates returned by overlapping retries
+  private merge(logs: unknown[]): unknown[] {
+    const seen = new Set<string>();
+    const unique: LogEntry[] = [];
+    for (const log of logs as LogEntry[]) {
+      const key = `${log.blockHash}:${log.transactionHash}:${log.logIndex}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      unique.push(log);
+    }
+    return unique.sort((a, b) =>
+      hexToNumber(a.blockNumber) - hexToNumber(b.blockNumber) ||
+      hexToNumber(a.logIndex) - hexToNumber(b.logIndex)
+    );
+  }
+}
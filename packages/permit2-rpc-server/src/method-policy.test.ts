@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { MethodPolicy } from "./method-policy.ts";
+import methodPolicyJson from "../method-policy.json" with { type: "json" };
+
+Deno.test("MethodPolicy: wildcards match whole method names", () => {
+  const policy = new MethodPolicy({ global: { deny: ["debug_*", "eth_sign"] } });
+  assert.equal(policy.check(1, "debug_traceTransaction").allowed, false);
+  assert.equal(policy.check(1, "eth_sign").allowed, false);
+  assert.equal(policy.check(1, "eth_signTransaction").allowed, true);
+  assert.equal(policy.check(1, "xdebug_trace").allowed, true);
+  assert.equal(policy.check(1, "eth_call").allowed, true);
+});
+
+Deno.test("MethodPolicy: deny answers -32005 and a missed allowlist -32601", () => {
+  const policy = new MethodPolicy({ global: { allow: ["eth_*"], deny: ["eth_sendTransaction"] } });
+  assert.deepEqual(policy.check(1, "eth_sendTransaction"), {
+    allowed: false,
+    code: -32005,
+    message: "Method eth_sendTransaction is not allowed on chain 1 by this proxy",
+  });
+  assert.deepEqual(policy.check(1, "trace_block"), {
+    allowed: false,
+    code: -32601,
+    message: "The method trace_block does not exist/is not available",
+  });
+});
+
+Deno.test("MethodPolicy: chain rules narrow global rules and only an explicit override lifts a global deny", () => {
+  const policy = new MethodPolicy({
+    global: { deny: ["trace_*", "eth_sign"] },
+    chains: {
+      "100": { allow: ["trace_*", "eth_*"], overrideGlobalDeny: ["trace_*"] },
+      "137": { deny: ["eth_getLogs"] },
+    },
+  });
+  assert.equal(policy.check(100, "trace_block").allowed, true);
+  assert.equal(policy.check(100, "net_version").allowed, false);
+  assert.equal(policy.check(1, "trace_block").allowed, false);
+  assert.equal(policy.check(137, "eth_getLogs").allowed, false);
+  assert.equal(policy.check(137, "trace_block").allowed, false);
+});
+
+Deno.test("MethodPolicy: a chain allowlist does not re-enable globally denied methods", () => {
+  const policy = new MethodPolicy({ ...methodPolicyJson, chains: { "100": { allow: ["eth_*"] } } });
+  for (const method of ["eth_sign", "eth_sendTransaction", "eth_accounts"]) {
+    assert.equal(policy.check(100, method).allowed, false, method);
+    assert.equal((policy.check(100, method) as { code: number }).code, -32005, method);
+  }
+  assert.equal(policy.check(100, "eth_call").allowed, true);
+  assert.equal(policy.check(100, "net_version").allowed, false);
+});
+
+Deno.test("MethodPolicy: rejects malformed configuration", () => {
+  assert.throws(() => new MethodPolicy({ chains: { mainnet: {} } }), /not a chain ID/);
+  assert.throws(
+    () => new MethodPolicy({ global: { deny: "debug_*" as unknown as string[] } }),
+    /global.deny must be an array of strings/,
+  );
+});
+
+Deno.test("MethodPolicy: the bundled policy denies signing and debug methods", () => {
+  const policy = new MethodPolicy(methodPolicyJson);
+  assert.equal(policy.check(1, "eth_signTypedData_v4").allowed, false);
+  assert.equal(policy.check(1, "personal_sign").allowed, false);
+  assert.equal(policy.check(1, "debug_traceCall").allowed, false);
+  assert.equal(policy.check(1, "eth_sendRawTransaction").allowed, true);
+});
@@ -0,0 +1,113 @@
+// Declarative allow/deny policy for JSON-RPC methods accepted by the proxy.
+
+// A set of method patterns. `*` matches any sequence of characters, e.g. `debug_*`.
+interface MethodRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+// Per-chain rules may also lift parts of the global deny list, which an allowlist alone never does
+interface ChainMethodRules extends MethodRules {
+  overrideGlobalDeny?: string[];
+}
+
+// Shape of method-policy.json
+export interface MethodPolicyConfig {
+  global?: MethodRules;
+  chains?: { [chainId: string]: ChainMethodRules };
+}
+
+export type MethodPolicyDecision =
+  | { allowed: true }
+  | { allowed: false; code: number; message: string };
+
+// JSON-RPC error codes used for rejections
+const METHOD_NOT_FOUND = -32601; // Method is not on an allowlist
+const METHOD_DENIED = -32005; // Method is explicitly denied by the proxy
+
+interface CompiledRules {
+  allow: RegExp[] | null; // null = no allowlist, everything not denied is allowed
+  deny: RegExp[];
+  overrideGlobalDeny: RegExp[];
+}
+
+function compilePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*")}$`);
+}
+
+function compileRules(rules: ChainMethodRules | undefined, label: string): CompiledRules {
+  const check = (list: unknown, field: string): string[] | null => {
+    if (list === undefined) return null;
+    if (!Array.isArray(list) || !list.every((entry) => typeof entry === "string")) {
+      throw new Error(`Invalid method policy: ${label}.${field} must be an array of strings`);
+    }
+    return list;
+  };
+  const allow = check(rules?.allow, "allow");
+  const deny = check(rules?.deny, "deny") ?? [];
+  const overrideGlobalDeny = check(rules?.overrideGlobalDeny, "overrideGlobalDeny") ?? [];
+  return {
+    allow: allow ? allow.map(compilePattern) : null,
+    deny: deny.map(compilePattern),
+    overrideGlobalDeny: overrideGlobalDeny.map(compilePattern),
+  };
+}
+
+/**
+ * Decides whether a method may be forwarded upstream for a given chain.
+ * Deny wins over allow, and the global deny list holds on every chain unless the chain overrides it:
+ * 1. chain deny match -> denied (-32005)
+ * 2. global deny match, not in the chain's overrideGlobalDeny -> denied (-32005)
+ * 3. chain allowlist present -> allowed if matched, otherwise not found (-32601)
+ * 4. global allowlist present and not matched -> not found (-32601)
+ * 5. otherwise allowed
+ */
+export class MethodPolicy {
+  private global: CompiledRules;
+  private chains = new Map<number, CompiledRules>();
+
+  constructor(config: MethodPolicyConfig = {}) {
+    this.global = compileRules(config.global, "global");
+    for (const [chainIdStr, rules] of Object.entries(config.chains ?? {})) {
+      const chainId = parseInt(chainIdStr, 10);
+      if (isNaN(chainId)) {
+        throw new Error(`Invalid method policy: chain key "${chainIdStr}" is not a chain ID`);
+      }
+      this.chains.set(chainId, compileRules(rules, `chains.${chainIdStr}`));
+    }
+  }
+
+  check(chainId: number, method: string): MethodPolicyDecision {
+    const matches = (patterns: RegExp[]) => patterns.some((pattern) => pattern.test(method));
+    const chainRules = this.chains.get(chainId);
+
+    if (chainRules && matches(chainRules.deny)) return this.denied(chainId, method);
+    if (matches(this.global.deny) && !(chainRules && matches(chainRules.overrideGlobalDeny))) {
+      return this.denied(chainId, method);
+    }
+    if (chainRules?.allow) {
+      return matches(chainRules.allow) ? { allowed: true } : this.notFound(method);
+    }
+    if (this.global.allow && !matches(this.global.allow)) {
+      return this.notFound(method);
+    }
+    return { allowed: true };
+  }
+
+  private denied(chainId: number, method: string): MethodPolicyDecision {
+    return {
+      allowed: false,
+      code: METHOD_DENIED,
+      message: `Method ${method} is not allowed on chain ${chainId} by this proxy`,
+    };
+  }
+
+  private notFound(method: string): MethodPolicyDecision {
+    return {
+      allowed: false,
+      code: METHOD_NOT_FOUND,
+      message: `The method ${method} does not exist/is not available`,
+    };
+  }
+}
@@ -1,39 +1,82 @@
 // import type { Address } from "viem"; // Removed - not used internally
-import { CacheManager } from "./cache-manager.ts";
+import { CacheManager, type CacheStoreOption } from "./cache-manager.ts";
 import { ChainlistDataSource } from "./chainlist-data-source.ts";
+import { type ConsensusOptions, runConsensus } from "./consensus-reader.ts";
+import { HealthHistory, type HealthHistoryOptions, type RpcUptimeStats } from "./health-history.ts";
 // import { readContract } from "./contract-utils.ts"; // Removed - not used internally
-import { LatencyTester } from "./latency-tester.ts";
+import {
+  HedgePolicy,
+  type HedgingOptions,
+  runHedged,
+} from "./hedged-request.ts";
+import type { LatencyStatistic } from "./latency-stats.ts";
+import { LatencyTester, type LatencyTesterOptions } from "./latency-tester.ts";
+import { isRangeLimitError, LogsRangeSplitter } from "./logs-range-splitter.ts";
+import {
+  classifyRequest,
+  ResponseCache,
+  type ResponseCacheOptions,
+  type ResponseCacheStats,
+} from "./response-cache.ts";
+import { RateLimiter, type RateLimitOptions } from "./rate-limiter.ts";
+import {
+  RequestCoalescer,
+  type RequestCoalescingOptions,
+} from "./request-coalescer.ts";
+import { isDeterministicRpcError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+import {
+  type CircuitBreakerOptions,
+  type RpcHealth,
+  RpcHealthTracker,
+} from "./rpc-health-tracker.ts";
 import { RpcSelector } from "./rpc-selector.ts";
-
-// Uncommented JSON-RPC interfaces
-interface JsonRpcRequest {
-  jsonrpc: "2.0";
-  method: string;
-  params?: unknown[]; // Changed any[] to unknown[]
-  id: number | string;
-}
-interface JsonRpcResponse {
-  jsonrpc: "2.0";
-  id: number | string;
-  result?: unknown; // Changed any to unknown
-  error?: {
-    code: number;
-    message: string;
-  };
-}
+import { RpcTransport } from "./rpc-transport.ts";
+import { WRITE_METHODS } from "./rpc-methods.ts";
+import {
+  createSelectionStrategy,
+  type SelectionOptions,
+  type SelectionStrategy,
+} from "./selection-strategy.ts";
+import { type SessionOptions, SessionTracker } from "./session-tracker.ts";
+import { TransactionBroadcaster } from "./transaction-broadcaster.ts";
+import type { RpcWhitelist, TrackingLevel } from "./whitelist-schema.ts";
+import { type WhitelistSourceOptions, WhitelistWatcher } from "./whitelist-watcher.ts";
 
 export interface Permit2RpcManagerOptions {
-  cacheTtlMs?: number;
+  cacheTtlMs?: number; // Hard expiry of latency test results
+  refreshIntervalMs?: number; // Re-test in the background once results are this old (default: half of cacheTtlMs)
   latencyTimeoutMs?: number;
   requestTimeoutMs?: number;
-  nodeCachePath?: string;
-  localStorageKey?: string; // Used as KV key prefix
+  cacheStore?: CacheStoreOption; // Storage backend (default: Deno KV when available, otherwise memory)
+  nodeCachePath?: string; // JSON file used by the "file" cache store
+  localStorageKey?: string; // Key prefix in the cache store
   logLevel?: "debug" | "info" | "warn" | "error" | "none";
-  initialRpcData?: { rpcs: { [chainId: string]: string[] } };
+  initialRpcData?: RpcWhitelist; // URL lists or endpoint objects with metadata (default: bundled rpc-whitelist.json)
+  maxTracking?: TrackingLevel; // Skip endpoints whose tracking label exceeds this (unlabelled ones are kept)
+  whitelistSource?: WhitelistSourceOptions; // Poll a URL or file for whitelist updates (initialRpcData until then)
   disableCache?: boolean; // Option to disable caching for testing
+  responseCache?: ResponseCacheOptions; // Method-aware response cache in front of send()
+  coalescing?: RequestCoalescingOptions; // Share in-flight upstream calls between identical requests
+  hedging?: HedgingOptions; // Fire slow read-only requests at the next ranked RPC as well
+  broadcastFanout?: number; // How many healthy RPCs receive each eth_sendRawTransaction
+  circuitBreaker?: CircuitBreakerOptions; // Live health tracking per RPC URL
+  latencyTesting?: LatencyTesterOptions; // Extra checks performed during latency tests
+  latencyStatistic?: LatencyStatistic; // Tested latency used for ranking: "ewma" (default), "p50", "p95" or "latest"
+  latencyTestLeaseMs?: number; // Lease that lets one isolate test a chain while others wait (default 60 s)
+  healthHistory?: HealthHistoryOptions; // Per-RPC history of latency test outcomes and uptime statistics
+  sessions?: SessionOptions; // Read consistency for callers that send a session id
+  rateLimits?: RateLimitOptions; // Provider cooldowns (429 / Retry-After) and client-side quotas
+  selection?: SelectionOptions; // Which ranked RPC each request starts with (default round-robin)
+}
+
+// Per-request options for send()
+export interface SendOptions {
+  consensus?: ConsensusOptions; // Require `quorum` of `providers` ranked RPCs to agree
+  sessionId?: string; // Never read from a node behind a block this session has already seen
 }
 
 const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_BROADCAST_FANOUT = 3;
 const DEFAULT_LOG_LEVEL = "warn";
 
 const LOG_LEVEL_HIERARCHY: Record<
@@ -50,34 +93,119 @@ const LOG_LEVEL_HIERARCHY: Record<
 export class Permit2RpcManager {
   private dataSource: ChainlistDataSource;
   private cacheManager: CacheManager;
+  private healthHistory: HealthHistory;
   private latencyTester: LatencyTester;
   public rpcSelector: RpcSelector;
-  private requestTimeoutMs: number;
+  private responseCache: ResponseCache;
+  private coalescer: RequestCoalescer;
+  private hedgePolicy: HedgePolicy;
+  private broadcaster: TransactionBroadcaster;
+  private broadcastFanout: number;
+  private logsSplitter: LogsRangeSplitter;
+  private healthTracker: RpcHealthTracker;
+  private transport: RpcTransport;
+  private sessions: SessionTracker;
+  private whitelistWatcher: WhitelistWatcher | null = null;
   private logLevel: NonNullable<Permit2RpcManagerOptions["logLevel"]>;
   private configuredLogLevelValue: number;
-  private rpcIndexMap = new Map<number, number>(); // Map to track next RPC index per chain
+  private defaultStrategy: SelectionStrategy;
+  private chainStrategies = new Map<number, SelectionStrategy>();
+  private outstanding = new Map<string, number>(); // In-flight requests per RPC URL
 
   constructor(options: Permit2RpcManagerOptions = {}) {
     this.logLevel = options.logLevel ?? DEFAULT_LOG_LEVEL;
     this.configuredLogLevelValue = LOG_LEVEL_HIERARCHY[this.logLevel];
     const logger = this._log.bind(this);
 
-    this.dataSource = new ChainlistDataSource(logger, options.initialRpcData);
+    this.dataSource = new ChainlistDataSource(logger, options.initialRpcData, { maxTracking: options.maxTracking });
     this.cacheManager = new CacheManager({
       cacheTtlMs: options.cacheTtlMs,
+      refreshIntervalMs: options.refreshIntervalMs,
+      store: options.cacheStore,
+      nodeCachePath: options.nodeCachePath,
       localStorageKey: options.localStorageKey,
       logger: logger,
       disableCache: options.disableCache, // Pass disableCache option
     });
-    this.latencyTester = new LatencyTester(options.latencyTimeoutMs, logger);
+    // Custom headers from the whitelist go with every request to an endpoint, tests included
+    const headersFor = (chainId: number, url: string) => this.dataSource.getHeaders(chainId, url);
+    this.latencyTester = new LatencyTester(
+      options.latencyTimeoutMs,
+      logger,
+      options.latencyTesting,
+      headersFor,
+    );
+    this.healthTracker = new RpcHealthTracker(options.circuitBreaker, logger);
+    const rateLimiter = new RateLimiter(
+      this.cacheManager,
+      options.rateLimits,
+      logger,
+    );
+    this.transport = new RpcTransport(
+      options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      this.healthTracker,
+      logger,
+      rateLimiter,
+      headersFor,
+    );
+    this.healthHistory = new HealthHistory(this.cacheManager, options.healthHistory, logger);
     this.rpcSelector = new RpcSelector(
       this.dataSource,
       this.cacheManager,
       this.latencyTester,
       logger,
+      this.healthTracker,
+      rateLimiter,
+      {
+        latencyStatistic: options.latencyStatistic,
+        testLeaseMs: options.latencyTestLeaseMs,
+        leaseWaitMs: options.latencyTimeoutMs,
+        healthHistory: this.healthHistory,
+      },
+    );
+    this.responseCache = new ResponseCache(
+      this.cacheManager,
+      {
+        ...options.responseCache,
+        enabled: options.responseCache?.enabled ?? !options.disableCache,
+      },
+      logger,
+      // Transactions and receipts are only cached for good once their block is finalized
+      (chainId) => this._sendWithFailover(chainId, "eth_getBlockByNumber", ["finalized", false]),
+    );
+    this.coalescer = new RequestCoalescer(options.coalescing, logger);
+    this.hedgePolicy = new HedgePolicy(options.hedging);
+    this.broadcaster = new TransactionBroadcaster(
+      (chainId, url, method, params) => this.executeRpcCall(chainId, url, method, params),
+      logger,
+    );
+    this.broadcastFanout = options.broadcastFanout ?? DEFAULT_BROADCAST_FANOUT;
+    this.logsSplitter = new LogsRangeSplitter(
+      (chainId, url, filter) => this.executeRpcCall(chainId, url, "eth_getLogs", [filter]),
+      logger,
+    );
+    this.sessions = new SessionTracker(options.sessions, logger);
+    if (options.whitelistSource) {
+      this.whitelistWatcher = new WhitelistWatcher(
+        options.whitelistSource,
+        (whitelist) => this._applyWhitelist(whitelist),
+        logger,
+      );
+      this.whitelistWatcher.start();
+    }
+    this.defaultStrategy = createSelectionStrategy(
+      options.selection?.strategy ?? "round-robin",
     );
-    this.requestTimeoutMs = options.requestTimeoutMs ??
-      DEFAULT_REQUEST_TIMEOUT_MS;
+    for (
+      const [chainId, strategy] of Object.entries(
+        options.selection?.chains ?? {},
+      )
+    ) {
+      this.chainStrategies.set(
+        Number(chainId),
+        createSelectionStrategy(strategy),
+      );
+    }
   }
 
   private _log(
@@ -94,15 +222,233 @@ export class Permit2RpcManager {
   }
 
   /**
-   * Sends a JSON-RPC request, trying available RPCs in a round-robin fashion based on the ranked list.
-   * Handles fallback by iterating through the list.
+   * Sends a JSON-RPC request. Cacheable responses are served from the response cache;
+   * everything else goes upstream via `_sendWithFailover`, sharing the upstream call with
+   * identical requests that are already in flight.
+   * Consensus reads bypass both and always go to several upstreams. Session reads only use
+   * immutable cache entries and are not shared, since another caller's upstream may be behind.
+   * Write methods take their own path (see `_sendWrite`) and are never retried blindly.
    */
   async send<T = unknown>( // Changed any to unknown
     chainId: number,
     method: string,
     params: unknown[] = [], // Changed any[] to unknown[]
+    options: SendOptions = {},
+  ): Promise<T> {
+    if (WRITE_METHODS.has(method)) {
+      return await this._sendWrite<T>(chainId, method, params);
+    }
+
+    if (options.consensus) {
+      return await this._sendWithConsensus<T>(
+        chainId,
+        method,
+        params,
+        options.consensus,
+      );
+    }
+
+    const { sessionId } = options;
+    const sessionBypass = sessionId !== undefined &&
+      classifyRequest(method, params) !== "immutable";
+    if (!sessionBypass) {
+      const cached = await this.responseCache.get(chainId, method, params, sessionId !== undefined);
+      if (cached !== undefined) {
+        return cached as T;
+      }
+    }
+
+    const execute = async () => {
+      const result = method === "eth_getLogs"
+        ? await this._getLogs<T>(chainId, params, sessionId)
+        : await this._sendWithFailover<T>(chainId, method, params, sessionId);
+      await this.responseCache.set(chainId, method, params, result);
+      return result;
+    };
+    return sessionBypass ? await execute() : await this.coalescer.run(chainId, method, params, execute);
+  }
+
+  /**
+   * Returns hit/miss counters for the response cache.
+   */
+  getResponseCacheStats(): ResponseCacheStats {
+    return this.responseCache.getStats();
+  }
+
+  /**
+   * Sends eth_getLogs normally; if the providers reject the block range, splits the query into chunks
+   * under the smallest known provider limit and merges the results.
+   */
+  private async _getLogs<T>(
+    chainId: number,
+    params: unknown[],
+    sessionId?: string,
   ): Promise<T> {
-    const rankedRpcList = await this.rpcSelector.getRankedRpcList(chainId);
+    try {
+      return await this._sendWithFailover<T>(
+        chainId,
+        "eth_getLogs",
+        params,
+        sessionId,
+      );
+    } catch (error) {
+      const filter = params[0];
+      if (
+        !isRangeLimitError(error) || typeof filter !== "object" ||
+        filter === null || "blockHash" in filter
+      ) {
+        throw error;
+      }
+      const { fromBlock, toBlock } = filter as {
+        fromBlock?: unknown;
+        toBlock?: unknown;
+      };
+      const [from, to] = await Promise.all([
+        this._resolveBlockNumber(chainId, fromBlock ?? "latest"),
+        this._resolveBlockNumber(chainId, toBlock ?? "latest"),
+      ]);
+      const [urls, rangeLimit] = await Promise.all([
+        this.rpcSelector.getRankedRpcList(chainId, "eth_getLogs", params),
+        this.rpcSelector.getLogsRangeLimit(chainId),
+      ]);
+      const logs = await this.logsSplitter.fetch(
+        chainId,
+        urls,
+        filter as Record<string, unknown>,
+        from,
+        to,
+        rangeLimit ?? undefined,
+      );
+      return logs as T;
+    }
+  }
+
+  /**
+   * Resolves a block tag (hex number, "earliest", "latest", "safe", ...) to a block number.
+   */
+  private async _resolveBlockNumber(
+    chainId: number,
+    blockTag: unknown,
+  ): Promise<number> {
+    if (typeof blockTag === "string" && /^0x[0-9a-fA-F]+$/.test(blockTag)) {
+      return parseInt(blockTag, 16);
+    }
+    if (blockTag === "earliest") return 0;
+    const tag = blockTag === "pending" ? "latest" : blockTag;
+    const block = await this.send<{ number?: string } | null>(
+      chainId,
+      "eth_getBlockByNumber",
+      [tag, false],
+    );
+    if (!block?.number) {
+      throw new Error(`Could not resolve block tag ${String(blockTag)}`);
+    }
+    return parseInt(block.number, 16);
+  }
+
+  /**
+   * Handles state-changing methods. eth_sendRawTransaction is broadcast to several healthy RPCs
+   * and resolves to the locally computed tx hash; other write methods are sent once to the best
+   * RPC without failover, since a retry could duplicate the side effect.
+   */
+  private async _sendWrite<T>(
+    chainId: number,
+    method: string,
+    params: unknown[],
+  ): Promise<T> {
+    const rankedRpcList = await this.rpcSelector.getRankedRpcList(
+      chainId,
+      method,
+      params,
+    );
+    const bestRpc = rankedRpcList[0];
+    if (!bestRpc) {
+      throw new Error(
+        `No available RPC endpoints found for chainId ${chainId}.`,
+      );
+    }
+
+    if (method === "eth_sendRawTransaction") {
+      const txHash = await this.broadcaster.broadcast(
+        chainId,
+        rankedRpcList.slice(0, this.broadcastFanout),
+        params[0],
+      );
+      return txHash as T;
+    }
+
+    this._log("debug", `Sending ${method} once to ${bestRpc} (no failover for write methods)`);
+    return await this.executeRpcCall<T>(chainId, bestRpc, method, params);
+  }
+
+  /**
+   * Sends the request to the top `providers` ranked RPCs and returns the result once `quorum` agree.
+   * Providers that disagree with the winning result are demoted in the latency map.
+   */
+  private async _sendWithConsensus<T>(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    { providers, quorum }: ConsensusOptions,
+  ): Promise<T> {
+    if (quorum < 1 || quorum > providers) {
+      throw new Error(
+        `Invalid consensus options: quorum ${quorum} of ${providers} providers.`,
+      );
+    }
+    const rankedRpcList = await this.rpcSelector.getRankedRpcList(
+      chainId,
+      method,
+      params,
+    );
+    const urls = rankedRpcList.slice(0, providers);
+    if (urls.length < quorum) {
+      throw new Error(
+        `Consensus requires ${quorum} RPCs but only ${urls.length} are available for chainId ${chainId}.`,
+      );
+    }
+
+    this._log(
+      "debug",
+      `Consensus read ${method} on chain ${chainId}: ${quorum} of ${urls.length} RPCs must agree.`,
+    );
+    return await runConsensus<T>(
+      urls,
+      (url) => this.executeRpcCall<T>(chainId, url, method, params),
+      quorum,
+      (summary) => {
+        if (summary.agreeing.length === 0) return; // No winner, nobody to blame
+        for (const url of summary.disagreeing) {
+          this.rpcSelector.demoteRpc(
+            chainId,
+            url,
+            `Disagreed with ${summary.agreeing.length} other RPCs on ${method}`,
+          ).catch((error) =>
+            this._log("error", `Failed to demote RPC ${url}:`, error)
+          );
+        }
+      },
+    );
+  }
+
+  /**
+   * Sends a JSON-RPC request upstream, trying available RPCs in the order chosen by the chain's
+   * selection strategy (round-robin over the ranked list by default).
+   * Handles fallback by iterating through the list. Requests with a session id follow the session's
+   * order instead (see `SessionTracker.orderForSession`).
+   */
+  private async _sendWithFailover<T>(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    sessionId?: string,
+  ): Promise<T> {
+    const rankedResults = await this.rpcSelector.getRankedRpcResults(
+      chainId,
+      method,
+      params,
+    );
+    const rankedRpcList = rankedResults.map((result) => result.url);
 
     if (rankedRpcList.length === 0) {
       this._log(
@@ -114,25 +460,73 @@ export class Permit2RpcManager {
       );
     }
 
-    // --- Round-Robin Start Index ---
-    const currentIndex = this.rpcIndexMap.get(chainId) || 0;
-    const startIndex = currentIndex % rankedRpcList.length; // Ensure start index is valid
-    // Immediately update the index for the *next* concurrent call
-    this.rpcIndexMap.set(chainId, (currentIndex + 1) % rankedRpcList.length);
-    this._log(
-      "debug",
-      `Starting RPC attempt loop for chain ${chainId} at index ${startIndex} (of ${rankedRpcList.length}). Next call starts at index ${
-        this.rpcIndexMap.get(chainId)
-      }.`,
-    );
-    // --- End Round-Robin ---
+    let orderedUrls: string[];
+    if (sessionId !== undefined) {
+      const testedAt = (await this.cacheManager.getChainCache(chainId))?.lastTested ?? 0;
+      this.sessions.observeHeads(chainId, rankedResults, testedAt);
+      orderedUrls = this.sessions.orderForSession(chainId, sessionId, rankedRpcList);
+      if (orderedUrls.length === 0) {
+        throw new Error(
+          `No RPC for chainId ${chainId} has reached the blocks session ${sessionId} has already seen.`,
+        );
+      }
+    } else {
+      const strategy = this.chainStrategies.get(chainId) ?? this.defaultStrategy;
+      orderedUrls = strategy.order(rankedResults, {
+        chainId,
+        method,
+        outstanding: (url) => this.outstanding.get(url) ?? 0,
+      }).map((result) => result.url);
+      this._log(
+        "debug",
+        `Starting RPC attempt loop for chain ${chainId} at ${orderedUrls[0]} (${strategy.name}, ${orderedUrls.length} RPCs).`,
+      );
+    }
+
+    // Counts in-flight requests and records the block height each answer proves, for session ordering
+    const attempt = async (url: string, signal?: AbortSignal): Promise<T> => {
+      this.outstanding.set(url, (this.outstanding.get(url) ?? 0) + 1);
+      try {
+        const result = await this.executeRpcCall<T>(chainId, url, method, params, signal);
+        if (this.sessions.isBehindSession(chainId, sessionId, method, params, result)) {
+          // Serving this would move the session backwards; try the next RPC instead
+          throw new Error(`RPC ${url} is behind a block session ${sessionId} has already seen`);
+        }
+        this.sessions.recordResult(chainId, sessionId, url, method, result);
+        return result;
+      } finally {
+        const remaining = (this.outstanding.get(url) ?? 1) - 1;
+        if (remaining > 0) this.outstanding.set(url, remaining);
+        else this.outstanding.delete(url);
+      }
+    };
+
+    const hedgeDelayMs = this.hedgePolicy.delayFor(method);
+    if (hedgeDelayMs !== null && orderedUrls.length > 1) {
+      try {
+        return await runHedged<T>(
+          orderedUrls,
+          attempt,
+          this.hedgePolicy,
+          hedgeDelayMs,
+          this._log.bind(this),
+        );
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        if (isDeterministicRpcError(error)) throw error;
+        this._log(
+          "error",
+          `All available RPC endpoints failed for chainId ${chainId} (hedged). Last error: ${error.message}`,
+        );
+        throw this._allFailedError(chainId, error);
+      }
+    }
 
     let lastError: Error | null = null; // Changed any to Error | null
 
-    // Iterate through the ranked list, starting from startIndex, wrapping around once
-    for (let i = 0; i < rankedRpcList.length; i++) {
-      const listIndex = (startIndex + i) % rankedRpcList.length;
-      const rpcUrl = rankedRpcList[listIndex];
+    // Iterate through the ordered list once
+    for (let i = 0; i < orderedUrls.length; i++) {
+      const rpcUrl = orderedUrls[i];
 
       if (!rpcUrl) continue; // Should not happen, but safety check
 
@@ -143,14 +537,20 @@ export class Permit2RpcManager {
             i + 1
           }: Trying RPC call to ${rpcUrl} for chain ${chainId}: ${method}`,
         );
-        // Pass unknown[] to executeRpcCall
-        // Pass unknown[] to executeRpcCall
-        const result = await this.executeRpcCall<T>(rpcUrl, method, params);
+        const result = await attempt(rpcUrl);
         this._log("debug", `RPC call successful for ${rpcUrl}`);
         return result; // Success! Return the result.
       } catch (e) { // Catch as unknown, assign to different var
         // Ensure it's an error object before assigning
         const error = e instanceof Error ? e : new Error(String(e));
+        if (isDeterministicRpcError(error)) {
+          // Any other RPC would answer the same way (e.g. revert), so pass it through without failover
+          this._log(
+            "debug",
+            `Deterministic RPC error from ${rpcUrl} for ${method}: ${error.message}`,
+          );
+          throw error;
+        }
         lastError = error;
         this._log(
           "warn",
@@ -163,69 +563,91 @@ export class Permit2RpcManager {
     // If the loop finishes, all RPCs failed.
     this._log(
       "error",
-      `All available RPC endpoints failed for chainId ${chainId} after ${rankedRpcList.length} attempts. Last error: ${lastError?.message}`,
+      `All available RPC endpoints failed for chainId ${chainId} after ${orderedUrls.length} attempts. Last error: ${lastError?.message}`,
     );
-    throw new Error(
+    throw this._allFailedError(chainId, lastError);
+  }
+
+  /**
+   * Builds the error thrown once every RPC failed. An upstream JSON-RPC error is passed through
+   * as-is so its code and data reach the client; transport failures are wrapped with context.
+   */
+  private _allFailedError(chainId: number, lastError: Error | null): Error {
+    if (lastError instanceof JsonRpcUpstreamError) return lastError;
+    return new Error(
       `All available RPC endpoints failed for chainId ${chainId}. Last error: ${lastError?.message}`,
     );
   }
 
   /**
-   * Executes a single JSON-RPC call to the specified URL.
+   * Re-runs latency tests for one chain, or for every configured chain, and updates the cache.
+   * Meant for scheduled jobs so user requests never wait for a test.
+   */
+  async refreshLatency(chainId?: number): Promise<void> {
+    const chainIds = chainId !== undefined ? [chainId] : this.dataSource.getAllChainIds();
+    for (const id of chainIds) {
+      await this.rpcSelector.refreshLatency(id); // One chain at a time to keep the load flat
+    }
+  }
+
+  /**
+   * Returns uptime, average latency and status breakdown per RPC from the latency test history,
+   * for one chain or every known chain.
+   */
+  async getRpcUptimeStats(chainId?: number): Promise<RpcUptimeStats[]> {
+    const chainIds = chainId !== undefined ? [chainId] : this.dataSource.getAllChainIds();
+    const stats: RpcUptimeStats[] = [];
+    for (const id of chainIds) {
+      stats.push(...await this.healthHistory.getStats(id));
+    }
+    return stats;
+  }
+
+  /**
+   * Checks the configured whitelist source for a new version now. Returns true when one was applied.
+   */
+  async reloadWhitelist(): Promise<boolean> {
+    return await this.whitelistWatcher?.check() ?? false;
+  }
+
+  /**
+   * Stops polling the whitelist source.
+   */
+  stopWhitelistUpdates(): void {
+    this.whitelistWatcher?.stop();
+  }
+
+  // Swaps in a new whitelist and expires the cached latency results of chains whose RPCs changed
+  private async _applyWhitelist(whitelist: RpcWhitelist): Promise<void> {
+    const changedChainIds = this.dataSource.replaceData(whitelist);
+    for (const chainId of changedChainIds) {
+      await this.cacheManager.invalidateChain(chainId);
+    }
+    if (changedChainIds.length > 0) {
+      this._log("info", `Whitelist update changed chains ${changedChainIds.join(", ")}; they will be re-tested.`);
+    }
+  }
+
+  /**
+   * Returns live health and circuit breaker state per RPC URL.
+   */
+  getRpcHealth(): Record<string, RpcHealth> {
+    return this.healthTracker.getSnapshot();
+  }
+
+  /**
+   * Executes a single JSON-RPC call to the specified URL of a chain.
+   * An optional signal lets callers (e.g. hedged requests) abort the call early.
    * Made public temporarily FOR TESTING PURPOSES ONLY.
    */
   public async executeRpcCall<T = unknown>( // Changed default generic
+    chainId: number,
     url: string,
     method: string,
     params: unknown[], // Changed any[] to unknown[]
+    signal?: AbortSignal,
   ): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.requestTimeoutMs,
-    );
-
-    const requestBody: JsonRpcRequest = {
-      jsonrpc: "2.0",
-      method,
-      params,
-      id: `rpc-call-${Date.now()}`,
-    };
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status} ${response.statusText}`);
-      }
-      const responseData: JsonRpcResponse = await response.json();
-      // Check if error exists before accessing its properties
-      if (responseData.error) {
-        throw new Error(
-          `RPC error ${responseData.error.code}: ${responseData.error.message}`,
-        );
-      }
-      // Check if result is explicitly undefined (it could be null which is valid JSON-RPC)
-      if (responseData.result === undefined) {
-        this._log("warn", `RPC response for ${method} had undefined result.`);
-        // Depending on expected behavior, might need to throw or return differently
-      }
-      // Cast should be safe now if no error was thrown
-      // Cast to unknown first, then T
-      return responseData.result as unknown as T;
-    } catch (error) { // Catch as unknown
-      clearTimeout(timeoutId);
-      // Check if it's an AbortError
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Request timed out after ${this.requestTimeoutMs}ms`);
-      }
-      throw error;
-    }
+    return await this.transport.call<T>(chainId, url, method, params, signal);
   }
 }
 
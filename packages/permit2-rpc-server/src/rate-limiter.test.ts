@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { CacheManager } from "./cache-manager.ts";
+import { getRateLimitCooldownMs, parseRetryAfter, RateLimiter } from "./rate-limiter.ts";
+import { HttpStatusError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+Deno.test("parseRetryAfter: reads delta seconds and HTTP dates", () => {
+  assert.equal(parseRetryAfter("2"), 2000);
+  assert.equal(parseRetryAfter(" 0.5 "), 500);
+  assert.equal(parseRetryAfter(null), undefined);
+  assert.equal(parseRetryAfter("soon"), undefined);
+  const inTenSeconds = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())!;
+  assert.ok(inTenSeconds > 8000 && inTenSeconds <= 10_000, String(inTenSeconds));
+  assert.equal(parseRetryAfter(new Date(Date.now() - 10_000).toUTCString()), 0);
+});
+
+Deno.test("getRateLimitCooldownMs: HTTP 429 and 503 with Retry-After", () => {
+  assert.equal(getRateLimitCooldownMs(new HttpStatusError(429, "Too Many Requests", 5000), DEFAULT_COOLDOWN_MS), 5000);
+  assert.equal(getRateLimitCooldownMs(new HttpStatusError(429, "Too Many Requests"), DEFAULT_COOLDOWN_MS), 30_000);
+  assert.equal(getRateLimitCooldownMs(new HttpStatusError(503, "Unavailable", 1000), DEFAULT_COOLDOWN_MS), 1000);
+  assert.equal(getRateLimitCooldownMs(new HttpStatusError(503, "Unavailable"), DEFAULT_COOLDOWN_MS), null);
+  assert.equal(getRateLimitCooldownMs(new HttpStatusError(500, "Internal"), DEFAULT_COOLDOWN_MS), null);
+});
+
+Deno.test("getRateLimitCooldownMs: JSON-RPC rate limits, with retry hints", () => {
+  const cooldown = (code: number, message: string) =>
+    getRateLimitCooldownMs(new JsonRpcUpstreamError(code, message), DEFAULT_COOLDOWN_MS);
+  assert.equal(cooldown(-32005, "limit exceeded"), 30_000);
+  assert.equal(cooldown(-32000, "Too Many Requests, retry after 2s"), 2000);
+  assert.equal(cooldown(-32000, "rate limited, try again in 500ms"), 500);
+  assert.equal(cooldown(-32000, "execution reverted"), null);
+  assert.equal(getRateLimitCooldownMs(new Error("rate limit"), DEFAULT_COOLDOWN_MS), null);
+});
+
+Deno.test("getRateLimitCooldownMs: -32005 range limits are not rate limits, rate-limit wording wins", () => {
+  const cooldown = (message: string) =>
+    getRateLimitCooldownMs(new JsonRpcUpstreamError(-32005, message), DEFAULT_COOLDOWN_MS);
+  assert.equal(cooldown("query returned more than 10000 results"), null);
+  assert.equal(cooldown("exceed maximum block range: 5000"), null);
+  assert.equal(cooldown("exceeds rate limit"), 30_000);
+  assert.equal(cooldown("block range request rate limit reached"), 30_000);
+});
+
+Deno.test("RateLimiter: token buckets enforce client-side quotas by URL or hostname", async () => {
+  const limiter = new RateLimiter(new CacheManager({ store: "memory" }), {
+    quotas: { "rpc.example": { requestsPerSecond: 10, burst: 2 } },
+  });
+  const url = "https://rpc.example/v1/key";
+  assert.equal(limiter.tryAcquire(url), true);
+  assert.equal(limiter.tryAcquire(url), true);
+  assert.equal(limiter.tryAcquire(url), false);
+  assert.equal(limiter.tryAcquire("https://other.example"), true);
+  // Empty buckets move to the end of the ranking, they are not dropped
+  assert.deepEqual(await limiter.filterAvailable([url, "https://other.example"]), ["https://other.example", url]);
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  assert.equal(limiter.tryAcquire(url), true);
+});
+
+Deno.test("RateLimiter: cooldowns drop URLs unless every URL is cooling down", async () => {
+  const limiter = new RateLimiter(new CacheManager({ store: "memory" }), { maxCooldownMs: 60_000 });
+  assert.equal(limiter.recordError("a", new HttpStatusError(429, "Too Many Requests", 3_600_000)), true);
+  assert.equal(limiter.recordError("b", new HttpStatusError(500, "Internal")), false);
+  assert.equal(limiter.isCoolingDown("a"), true);
+  assert.deepEqual(await limiter.filterAvailable(["a", "b"]), ["b"]);
+  assert.deepEqual(await limiter.filterAvailable(["a"]), ["a"]);
+});
@@ -0,0 +1,187 @@
+import type { CacheManager } from "./cache-manager.ts";
+import { isRangeLimitError } from "./logs-range-splitter.ts";
+import { HttpStatusError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface ProviderQuota {
+  requestsPerSecond: number;
+  burst?: number; // Bucket size, defaults to one second worth of requests
+}
+
+export interface RateLimitOptions {
+  defaultCooldownMs?: number; // Cooldown when a provider rate-limits us without saying for how long
+  maxCooldownMs?: number; // Upper bound for provider-supplied Retry-After values
+  quotas?: Record<string, ProviderQuota>; // Client-side token buckets, keyed by full URL or hostname
+}
+
+interface TokenBucket {
+  capacity: number;
+  refillPerMs: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+// How often cooldowns set by other isolates are re-read from KV
+const COOLDOWN_SYNC_INTERVAL_MS = 5000;
+
+// JSON-RPC codes providers use for rate limiting (-32005 is "limit exceeded", also used for log range limits)
+const RATE_LIMIT_ERROR_CODES = new Set<number>([429, -32005, -32029, -32090]);
+const RATE_LIMIT_MESSAGE_PATTERN =
+  /rate.?limit|too many requests|request limit|exceeded .*(quota|capacity|compute units)|throttl/i;
+// e.g. "rate limited, try again in 2s", "retry after 500ms"
+const RETRY_HINT_PATTERN = /(?:retry|try again) (?:after|in) (\d+(?:\.\d+)?)\s*(ms|s|sec|seconds?)?\b/i;
+
+/**
+ * Parses a Retry-After header value (delta seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Returns how long an RPC asked us to back off if the error is a rate limit, otherwise null.
+ * Rate-limit wording wins over everything else; a shared code such as -32005 only counts when the
+ * message is not about the eth_getLogs range. A rate limit without a usable hint gets `defaultCooldownMs`.
+ */
+export function getRateLimitCooldownMs(error: unknown, defaultCooldownMs: number): number | null {
+  if (error instanceof HttpStatusError) {
+    if (error.status !== 429 && !(error.status === 503 && error.retryAfterMs !== undefined)) return null;
+    return error.retryAfterMs ?? defaultCooldownMs;
+  }
+  if (!(error instanceof JsonRpcUpstreamError)) return null;
+  if (!RATE_LIMIT_MESSAGE_PATTERN.test(error.message)) {
+    if (!RATE_LIMIT_ERROR_CODES.has(error.code) || isRangeLimitError(error)) return null;
+  }
+  const hint = error.message.match(RETRY_HINT_PATTERN);
+  if (!hint) return defaultCooldownMs;
+  const amount = parseFloat(hint[1]);
+  return hint[2]?.toLowerCase() === "ms" ? amount : amount * 1000;
+}
+
+/**
+ * Tracks per-provider rate limits. Cooldowns from 429s / provider rate-limit errors are shared across
+ * isolates through KV; optional client-side token buckets keep us under known quotas.
+ */
+export class RateLimiter {
+  private cacheManager: CacheManager;
+  private defaultCooldownMs: number;
+  private maxCooldownMs: number;
+  private quotas: Record<string, ProviderQuota>;
+  private cooldowns = new Map<string, number>(); // url -> cooldown end timestamp
+  private buckets = new Map<string, TokenBucket>();
+  private lastSyncAt = 0;
+  private log: LoggerFn;
+
+  constructor(cacheManager: CacheManager, options: RateLimitOptions = {}, logger?: LoggerFn) {
+    this.cacheManager = cacheManager;
+    this.defaultCooldownMs = options.defaultCooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.maxCooldownMs = options.maxCooldownMs ?? MAX_COOLDOWN_MS;
+    this.quotas = options.quotas ?? {};
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Puts the URL in cooldown if the error is a rate limit. Returns true when it was one.
+   */
+  recordError(url: string, error: unknown): boolean {
+    const cooldownMs = getRateLimitCooldownMs(error, this.defaultCooldownMs);
+    if (cooldownMs === null) return false;
+    const until = Date.now() + Math.min(cooldownMs, this.maxCooldownMs);
+    if (until <= (this.cooldowns.get(url) ?? 0)) return true;
+    this.cooldowns.set(url, until);
+    this.log("warn", `RPC ${url} is rate limiting us, cooling down for ${Math.round((until - Date.now()) / 1000)}s`);
+    this.cacheManager.setRateLimitCooldown(url, until).catch((e) =>
+      this.log("warn", `Failed to persist cooldown for ${url}:`, e)
+    );
+    return true;
+  }
+
+  isCoolingDown(url: string): boolean {
+    const until = this.cooldowns.get(url);
+    if (until === undefined) return false;
+    if (until > Date.now()) return true;
+    this.cooldowns.delete(url);
+    return false;
+  }
+
+  /**
+   * Takes a token from the URL's client-side bucket. Returns false when the quota is used up;
+   * URLs without a configured quota always pass.
+   */
+  tryAcquire(url: string): boolean {
+    const bucket = this.getBucket(url);
+    if (!bucket) return true;
+    this.refill(bucket);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens--;
+    return true;
+  }
+
+  /**
+   * Drops URLs in cooldown and moves URLs whose token bucket is empty to the end, keeping the
+   * ranked order otherwise. Returns the input unchanged if every URL is cooling down.
+   */
+  async filterAvailable(urls: string[]): Promise<string[]> {
+    await this.syncCooldowns();
+    const available = urls.filter((url) => !this.isCoolingDown(url));
+    if (available.length === 0) {
+      if (urls.length > 0) this.log("warn", "All ranked RPCs are rate limited, ignoring cooldowns.");
+      return urls;
+    }
+    const withTokens = available.filter((url) => this.hasTokens(url));
+    return [...withTokens, ...available.filter((url) => !withTokens.includes(url))];
+  }
+
+  // Picks up cooldowns recorded by other isolates
+  private async syncCooldowns(): Promise<void> {
+    if (Date.now() - this.lastSyncAt < COOLDOWN_SYNC_INTERVAL_MS) return;
+    this.lastSyncAt = Date.now();
+    const stored = await this.cacheManager.getRateLimitCooldowns();
+    for (const [url, until] of Object.entries(stored)) {
+      if (until > (this.cooldowns.get(url) ?? 0)) this.cooldowns.set(url, until);
+    }
+  }
+
+  private hasTokens(url: string): boolean {
+    const bucket = this.getBucket(url);
+    if (!bucket) return true;
+    this.refill(bucket);
+    return bucket.tokens >= 1;
+  }
+
+  private getBucket(url: string): TokenBucket | null {
+    const existing = this.buckets.get(url);
+    if (existing) return existing;
+    let quota = this.quotas[url];
+    if (!quota) {
+      try {
+        quota = this.quotas[new URL(url).hostname];
+      } catch {
+        return null;
+      }
+    }
+    if (!quota || quota.requestsPerSecond <= 0) return null;
+    const capacity = quota.burst ?? Math.max(1, quota.requestsPerSecond);
+    const bucket = { capacity, refillPerMs: quota.requestsPerSecond / 1000, tokens: capacity, updatedAt: Date.now() };
+    this.buckets.set(url, bucket);
+    return bucket;
+  }
+
+  private refill(bucket: TokenBucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = now;
+  }
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { RequestCoalescer } from "./request-coalescer.ts";
+
+// An upstream call that resolves or rejects when the test says so, counting how often it started
+function deferredUpstream<T>() {
+  let calls = 0;
+  let settle: { resolve: (value: T) => void; reject: (error: Error) => void } | null = null;
+  const execute = () => {
+    calls++;
+    return new Promise<T>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+  };
+  return {
+    execute,
+    calls: () => calls,
+    resolve: (value: T) => settle?.resolve(value),
+    reject: (error: Error) => settle?.reject(error),
+  };
+}
+
+Deno.test("RequestCoalescer: identical in-flight requests share one upstream call", async () => {
+  const coalescer = new RequestCoalescer();
+  const upstream = deferredUpstream<string>();
+  const first = coalescer.run(1, "eth_blockNumber", [], upstream.execute);
+  const second = coalescer.run(1, "eth_blockNumber", [], upstream.execute);
+  // Another chain or other params are a different request
+  const otherChain = coalescer.run(137, "eth_blockNumber", [], () => Promise.resolve("0x2"));
+  const otherParams = coalescer.run(1, "eth_getBalance", ["0x0", "latest"], () => Promise.resolve("0x3"));
+  upstream.resolve("0x1");
+
+  assert.deepEqual(await Promise.all([first, second, otherChain, otherParams]), ["0x1", "0x1", "0x2", "0x3"]);
+  assert.equal(upstream.calls(), 1);
+
+  // Once settled, the next request goes upstream again
+  const third = coalescer.run(1, "eth_blockNumber", [], upstream.execute);
+  upstream.resolve("0x4");
+  assert.equal(await third, "0x4");
+  assert.equal(upstream.calls(), 2);
+});
+
+Deno.test("RequestCoalescer: a failure reaches every waiting caller and is not cached", async () => {
+  const coalescer = new RequestCoalescer();
+  const upstream = deferredUpstream<string>();
+  const first = coalescer.run(1, "eth_call", [{}, "latest"], upstream.execute);
+  const second = coalescer.run(1, "eth_call", [{}, "latest"], upstream.execute);
+  upstream.reject(new Error("execution reverted"));
+
+  await assert.rejects(first, /execution reverted/);
+  await assert.rejects(second, /execution reverted/);
+  assert.equal(upstream.calls(), 1);
+
+  const retry = coalescer.run(1, "eth_call", [{}, "latest"], upstream.execute);
+  upstream.resolve("0x");
+  assert.equal(await retry, "0x");
+  assert.equal(upstream.calls(), 2);
+});
+
+Deno.test("RequestCoalescer: writes, filters and excluded methods always go upstream", async () => {
+  const coalescer = new RequestCoalescer({ excludeMethods: ["eth_gasPrice"] });
+  let calls = 0;
+  const execute = () => Promise.resolve(++calls);
+  for (const method of ["eth_sendRawTransaction", "eth_newFilter", "eth_gasPrice"]) {
+    calls = 0;
+    await Promise.all([coalescer.run(1, method, [], execute), coalescer.run(1, method, [], execute)]);
+    assert.equal(calls, 2, method);
+  }
+
+  const disabled = new RequestCoalescer({ enabled: false });
+  calls = 0;
+  await Promise.all([disabled.run(1, "eth_chainId", [], execute), disabled.run(1, "eth_chainId", [], execute)]);
+  assert.equal(calls, 2);
+});
@@ -0,0 +1,66 @@
+import { FILTER_METHODS, WRITE_METHODS } from "./rpc-methods.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface RequestCoalescingOptions {
+  enabled?: boolean;
+  excludeMethods?: string[]; // Additional methods that must always reach upstream individually
+}
+
+/**
+ * Shares one upstream promise between identical (chainId, method, params) requests that are in flight
+ * at the same time. Only the result is shared; each caller still builds its own JSON-RPC response,
+ * so ids are preserved. Callers receive the same result object and must not mutate it.
+ */
+export class RequestCoalescer {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private enabled: boolean;
+  private excludedMethods: Set<string>;
+  private log: LoggerFn;
+
+  constructor(options: RequestCoalescingOptions = {}, logger?: LoggerFn) {
+    this.enabled = options.enabled ?? true;
+    // Methods with side effects are never coalesced, regardless of configuration
+    this.excludedMethods = new Set([
+      ...WRITE_METHODS,
+      ...FILTER_METHODS,
+      ...(options.excludeMethods ?? []),
+    ]);
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Runs `execute` unless an identical request is already in flight, in which case its promise is reused.
+   */
+  run<T>(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.enabled || this.excludedMethods.has(method)) {
+      return execute();
+    }
+
+    const key = `${chainId}:${method}:${JSON.stringify(params)}`;
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.log(
+        "debug",
+        `Coalescing ${method} on chain ${chainId} with an in-flight request.`,
+      );
+      return existing as Promise<T>;
+    }
+
+    const promise = execute().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
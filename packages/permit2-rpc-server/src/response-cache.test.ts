@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { CacheManager } from "./cache-manager.ts";
+import { classifyRequest, classifyTransactionResult, ResponseCache } from "./response-cache.ts";
+import { isReadOnlyMethod } from "./rpc-methods.ts";
+
+const BLOCK_HASH = "0x" + "ab".repeat(32);
+const TX_HASH = "0x" + "cd".repeat(32);
+
+Deno.test("classifyRequest: chain constants and hash-pinned reads are immutable", () => {
+  assert.equal(classifyRequest("eth_chainId", []), "immutable");
+  assert.equal(classifyRequest("eth_getBlockByHash", [BLOCK_HASH, false]), "immutable");
+  assert.equal(classifyRequest("eth_getLogs", [{ blockHash: BLOCK_HASH }]), "immutable");
+  assert.equal(classifyRequest("eth_call", [{}, { blockHash: BLOCK_HASH }]), "immutable");
+  assert.equal(classifyRequest("eth_getBalance", ["0x0", "earliest"]), "immutable");
+});
+
+Deno.test("classifyRequest: head-dependent reads are short, pending reads and writes never", () => {
+  assert.equal(classifyRequest("eth_blockNumber", []), "short");
+  assert.equal(classifyRequest("eth_call", [{}, "latest"]), "short");
+  assert.equal(classifyRequest("eth_call", [{}]), "short");
+  assert.equal(classifyRequest("eth_getBlockByNumber", ["0x10", false]), "short");
+  assert.equal(classifyRequest("eth_getLogs", [{ fromBlock: "0x1", toBlock: "0x2" }]), "short");
+  assert.equal(classifyRequest("eth_getBalance", ["0x0", "pending"]), "never");
+  assert.equal(classifyRequest("eth_sendRawTransaction", ["0x00"]), "never");
+  assert.equal(classifyRequest("eth_someUnknownMethod", []), "never");
+});
+
+Deno.test("classifyRequest and isReadOnlyMethod: Object.prototype names are unknown methods", () => {
+  for (const method of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    assert.equal(classifyRequest(method, ["0x0", "latest"]), "never", method);
+    assert.equal(isReadOnlyMethod(method), false, method);
+  }
+  assert.equal(isReadOnlyMethod("eth_getBalance"), true);
+});
+
+Deno.test("classifyTransactionResult: only transactions in finalized blocks are immutable", () => {
+  const mined = { hash: TX_HASH, blockHash: BLOCK_HASH, blockNumber: "0x64" };
+  assert.equal(classifyTransactionResult(mined, 100), "immutable");
+  assert.equal(classifyTransactionResult(mined, 200), "immutable");
+  assert.equal(classifyTransactionResult(mined, 99), "short");
+  assert.equal(classifyTransactionResult(mined, null), "short");
+  assert.equal(classifyTransactionResult({ hash: TX_HASH, blockHash: null, blockNumber: null }, 200), "never");
+});
+
+Deno.test("ResponseCache: unfinalized receipts expire with the short TTL", async () => {
+  const cacheManager = new CacheManager({ store: "memory" });
+  const cache = new ResponseCache(
+    cacheManager,
+    { shortTtlMs: 20 },
+    undefined,
+    () => Promise.resolve({ number: "0x63" }),
+  );
+  const receipt = { transactionHash: TX_HASH, blockHash: BLOCK_HASH, blockNumber: "0x64" };
+
+  await cache.set(1, "eth_getTransactionReceipt", [TX_HASH], receipt);
+  assert.deepEqual(await cache.get(1, "eth_getTransactionReceipt", [TX_HASH]), receipt);
+  // Session reads skip entries that may still change
+  assert.equal(await cache.get(1, "eth_getTransactionReceipt", [TX_HASH], true), undefined);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.equal(await cache.get(1, "eth_getTransactionReceipt", [TX_HASH]), undefined);
+});
+
+Deno.test("ResponseCache: finalized receipts are kept and pending transactions are not cached", async () => {
+  const cacheManager = new CacheManager({ store: "memory" });
+  const cache = new ResponseCache(
+    cacheManager,
+    { shortTtlMs: 20 },
+    undefined,
+    () => Promise.resolve({ number: "0x100" }),
+  );
+  const receipt = { transactionHash: TX_HASH, blockHash: BLOCK_HASH, blockNumber: "0x64" };
+  const pending = { hash: TX_HASH, blockHash: null, blockNumber: null };
+
+  await cache.set(1, "eth_getTransactionReceipt", [TX_HASH], receipt);
+  await cache.set(1, "eth_getTransactionByHash", [TX_HASH], pending);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.deepEqual(await cache.get(1, "eth_getTransactionReceipt", [TX_HASH], true), receipt);
+  assert.equal(await cache.get(1, "eth_getTransactionByHash", [TX_HASH]), undefined);
+});
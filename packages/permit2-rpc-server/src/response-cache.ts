@@ -0,0 +1,268 @@
+import type { CacheManager } from "./cache-manager.ts";
+import {
+  blockParamIndex,
+  CHAIN_CONSTANT_METHODS,
+  HASH_ADDRESSED_METHODS,
+  HEAD_DEPENDENT_METHODS,
+  isBlockHashParam,
+  TRANSACTION_LOOKUP_METHODS,
+  WRITE_METHODS,
+} from "./rpc-methods.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+/**
+ * How long a response may be reused:
+ * - immutable: never changes (chainId, hash-pinned reads, transactions and receipts in finalized blocks).
+ *   Kept in memory and persisted.
+ * - short: follows the chain head (`latest` reads, block number). Kept in memory for a few seconds.
+ * - never: writes, `pending` reads and anything unknown.
+ */
+export type ResponseCacheClass = "immutable" | "short" | "never";
+
+export interface ResponseCacheOptions {
+  enabled?: boolean;
+  shortTtlMs?: number; // TTL for head-dependent responses (memory only)
+  immutableTtlMs?: number; // TTL for immutable responses (memory and persistent store)
+  maxMemoryEntries?: number; // Upper bound for the in-memory LRU
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  bypassed: number;
+  memoryEntries: number;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+  cacheClass: ResponseCacheClass;
+}
+
+// Fetches the chain's `finalized` block (eth_getBlockByNumber result)
+type FinalizedBlockFn = (chainId: number) => Promise<unknown>;
+
+const DEFAULT_SHORT_TTL_MS = 2000;
+const DEFAULT_IMMUTABLE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_MAX_MEMORY_ENTRIES = 1000;
+// How long a fetched finalized block number is reused
+const FINALIZED_HEAD_TTL_MS = 12 * 1000;
+
+/**
+ * Classifies a request by how long its response may be cached.
+ */
+export function classifyRequest(
+  method: string,
+  params: unknown[],
+): ResponseCacheClass {
+  if (WRITE_METHODS.has(method)) return "never";
+  if (CHAIN_CONSTANT_METHODS.has(method)) return "immutable";
+  if (HASH_ADDRESSED_METHODS.has(method)) return "immutable";
+
+  if (method === "eth_getLogs") {
+    const filter = params[0];
+    const pinned = typeof filter === "object" && filter !== null &&
+      "blockHash" in filter;
+    return pinned ? "immutable" : "short";
+  }
+
+  const blockIndex = blockParamIndex(method);
+  if (blockIndex !== undefined) {
+    const blockParam = params[blockIndex] ?? "latest";
+    if (isBlockHashParam(blockParam)) return "immutable";
+    if (blockParam === "earliest") return "immutable";
+    if (blockParam === "pending") return "never";
+    return "short"; // latest, safe, finalized or an explicit number that may still be reorged
+  }
+
+  if (HEAD_DEPENDENT_METHODS.has(method)) return "short";
+  return "never";
+}
+
+// Block number of a transaction or receipt, or null while it is pending
+function minedBlockNumber(result: unknown): number | null {
+  const { blockHash, blockNumber } = (result ?? {}) as { blockHash?: unknown; blockNumber?: unknown };
+  if (typeof blockHash !== "string" || typeof blockNumber !== "string") return null;
+  const block = parseInt(blockNumber, 16);
+  return isNaN(block) ? null : block;
+}
+
+/**
+ * Cache class of a transaction or receipt looked up by hash. Pending ones are not cached; mined ones
+ * only briefly until their block is at or below the finalized head (unknown = not finalized).
+ */
+export function classifyTransactionResult(result: unknown, finalizedBlock: number | null): ResponseCacheClass {
+  const block = minedBlockNumber(result);
+  if (block === null) return "never";
+  return finalizedBlock !== null && block <= finalizedBlock ? "immutable" : "short";
+}
+
+/**
+ * Response cache placed in front of `Permit2RpcManager.send`.
+ * Hot entries live in an in-memory LRU; immutable entries are also persisted
+ * through the `CacheManager` so other isolates can reuse them.
+ */
+export class ResponseCache {
+  private memory = new Map<string, MemoryEntry>();
+  private enabled: boolean;
+  private shortTtlMs: number;
+  private immutableTtlMs: number;
+  private maxMemoryEntries: number;
+  private cacheManager: CacheManager;
+  private fetchFinalizedBlock: FinalizedBlockFn | null;
+  private finalizedHeads = new Map<number, { block: number | null; fetchedAt: number }>();
+  private log: LoggerFn;
+  private stats = {
+    hits: 0,
+    memoryHits: 0,
+    persistentHits: 0,
+    misses: 0,
+    bypassed: 0,
+  };
+
+  constructor(
+    cacheManager: CacheManager,
+    options: ResponseCacheOptions = {},
+    logger?: LoggerFn,
+    fetchFinalizedBlock?: FinalizedBlockFn,
+  ) {
+    this.cacheManager = cacheManager;
+    this.fetchFinalizedBlock = fetchFinalizedBlock ?? null;
+    this.enabled = options.enabled ?? true;
+    this.shortTtlMs = options.shortTtlMs ?? DEFAULT_SHORT_TTL_MS;
+    this.immutableTtlMs = options.immutableTtlMs ?? DEFAULT_IMMUTABLE_TTL_MS;
+    this.maxMemoryEntries = options.maxMemoryEntries ??
+      DEFAULT_MAX_MEMORY_ENTRIES;
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Looks up a cached response. Resolves to `undefined` on a miss or when the request is not cacheable.
+   * With `immutableOnly`, short-lived entries are ignored (e.g. for session reads).
+   */
+  async get(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    immutableOnly = false,
+  ): Promise<unknown> {
+    const cacheClass = this.enabled ? classifyRequest(method, params) : "never";
+    if (cacheClass === "never") {
+      this.stats.bypassed++;
+      return undefined;
+    }
+
+    const key = this.keyFor(chainId, method, params);
+    const entry = this.memory.get(key);
+    if (entry && entry.expiresAt > Date.now() && (!immutableOnly || entry.cacheClass === "immutable")) {
+      // Refresh recency for the LRU
+      this.memory.delete(key);
+      this.memory.set(key, entry);
+      this.stats.hits++;
+      this.stats.memoryHits++;
+      this.log("debug", `Response cache hit (memory) for ${method} on chain ${chainId}`);
+      return entry.value;
+    }
+    if (entry && entry.expiresAt <= Date.now()) this.memory.delete(key);
+
+    if (cacheClass === "immutable") {
+      const persisted = await this.cacheManager.getCachedResponse(
+        await this.persistentKeyFor(key),
+      );
+      if (persisted !== undefined) {
+        this.remember(key, persisted, "immutable");
+        this.stats.hits++;
+        this.stats.persistentHits++;
+        this.log("debug", `Response cache hit (persistent) for ${method} on chain ${chainId}`);
+        return persisted;
+      }
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  /**
+   * Stores a successful response according to its cache class. Null results are never cached,
+   * since they usually mean "not mined yet" or "not found". Transactions and receipts are classified
+   * by their block (see classifyTransactionResult).
+   */
+  async set(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    result: unknown,
+  ): Promise<void> {
+    if (!this.enabled || result === null || result === undefined) return;
+    let cacheClass = classifyRequest(method, params);
+    if (cacheClass === "immutable" && TRANSACTION_LOOKUP_METHODS.has(method)) {
+      const finalizedBlock = minedBlockNumber(result) !== null ? await this.getFinalizedBlock(chainId) : null;
+      cacheClass = classifyTransactionResult(result, finalizedBlock);
+    }
+    if (cacheClass === "never") return;
+
+    const key = this.keyFor(chainId, method, params);
+    this.remember(key, result, cacheClass);
+    if (cacheClass === "short") return;
+    await this.cacheManager.setCachedResponse(
+      await this.persistentKeyFor(key),
+      result,
+      this.immutableTtlMs,
+    );
+  }
+
+  getStats(): ResponseCacheStats {
+    return { ...this.stats, memoryEntries: this.memory.size };
+  }
+
+  // The chain's finalized block number, refreshed every few seconds; null if unknown
+  private async getFinalizedBlock(chainId: number): Promise<number | null> {
+    if (!this.fetchFinalizedBlock) return null;
+    const cached = this.finalizedHeads.get(chainId);
+    if (cached && Date.now() - cached.fetchedAt < FINALIZED_HEAD_TTL_MS) return cached.block;
+    let block: number | null = null;
+    try {
+      const finalized = await this.fetchFinalizedBlock(chainId) as { number?: unknown } | null;
+      block = typeof finalized?.number === "string" ? parseInt(finalized.number, 16) : null;
+      if (block !== null && isNaN(block)) block = null;
+    } catch (e) {
+      this.log("debug", `Could not fetch the finalized block for chain ${chainId}:`, e);
+    }
+    this.finalizedHeads.set(chainId, { block, fetchedAt: Date.now() });
+    return block;
+  }
+
+  private remember(key: string, value: unknown, cacheClass: Exclude<ResponseCacheClass, "never">): void {
+    const ttlMs = cacheClass === "immutable" ? this.immutableTtlMs : this.shortTtlMs;
+    this.memory.delete(key);
+    this.memory.set(key, { value, expiresAt: Date.now() + ttlMs, cacheClass });
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldestKey = this.memory.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  private keyFor(chainId: number, method: string, params: unknown[]): string {
+    return `${chainId}:${method}:${JSON.stringify(params)}`;
+  }
+
+  // Persistent store keys have a size limit, so hash the (possibly large) request key
+  private async persistentKeyFor(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+}
@@ -0,0 +1,77 @@
+// Optional features an RPC may or may not support, and which of them a request needs.
+
+export interface RpcCapabilities {
+  archive: boolean; // Serves state at old blocks
+  trace: boolean; // trace_* namespace
+  debug: boolean; // debug_* namespace
+  batch: boolean; // Accepts JSON-RPC batch requests
+  maxLogsRange: number | null; // Largest eth_getLogs block range that succeeded, null if unknown
+  headBlock: number | null; // Latest known head block of the RPC
+  probedAt?: number; // When the capabilities were probed
+}
+
+// Full nodes typically keep state for the most recent 128 blocks
+const RECENT_STATE_BLOCKS = 128;
+
+// Methods that read account state at a block parameter, mapped to that parameter's index
+const STATE_READ_BLOCK_INDEX: Record<string, number> = {
+  eth_call: 1,
+  eth_estimateGas: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_getProof: 2,
+};
+
+function parseBlockNumber(blockTag: unknown, headBlock: number | null): number | null {
+  if (typeof blockTag === "string" && /^0x[0-9a-fA-F]+$/.test(blockTag) && blockTag.length <= 18) {
+    return parseInt(blockTag, 16);
+  }
+  if (blockTag === "earliest") return 0;
+  if (blockTag === undefined || blockTag === "latest" || blockTag === "pending") return headBlock;
+  return null;
+}
+
+/**
+ * Returns the block range an eth_getLogs filter spans, or null if it cannot be determined.
+ */
+export function getLogsRange(filter: unknown, headBlock: number | null): number | null {
+  if (typeof filter !== "object" || filter === null || "blockHash" in filter) return null;
+  const { fromBlock, toBlock } = filter as { fromBlock?: unknown; toBlock?: unknown };
+  const from = parseBlockNumber(fromBlock ?? "latest", headBlock);
+  const to = parseBlockNumber(toBlock ?? "latest", headBlock);
+  if (from === null || to === null) return null;
+  return to - from + 1;
+}
+
+/**
+ * Returns false when an RPC's probed capabilities rule it out for a request:
+ * debug_/trace_ namespaces, eth_getLogs ranges over its limit, and state reads at blocks
+ * older than a full node keeps (archive). Unknown capabilities never rule an RPC out.
+ */
+export function meetsRequirements(
+  capabilities: RpcCapabilities | undefined,
+  method: string,
+  params: unknown[],
+): boolean {
+  if (!capabilities) return true;
+
+  if (method.startsWith("debug_")) return capabilities.debug;
+  if (method.startsWith("trace_")) return capabilities.trace;
+
+  if (method === "eth_getLogs") {
+    const range = getLogsRange(params[0], capabilities.headBlock);
+    return range === null || capabilities.maxLogsRange === null ||
+      range <= capabilities.maxLogsRange;
+  }
+
+  const blockIndex = Object.hasOwn(STATE_READ_BLOCK_INDEX, method) ? STATE_READ_BLOCK_INDEX[method] : undefined;
+  if (blockIndex !== undefined && !capabilities.archive) {
+    const block = parseBlockNumber(params[blockIndex], capabilities.headBlock);
+    if (block !== null && capabilities.headBlock !== null) {
+      return block >= capabilities.headBlock - RECENT_STATE_BLOCKS;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { HttpStatusError, isDeterministicRpcError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+Deno.test("isDeterministicRpcError: reverts and invalid requests are deterministic", () => {
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(3, "execution reverted", "0x08c379a0")), true);
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32602, "invalid params")), true);
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32600, "invalid request")), true);
+  assert.equal(
+    isDeterministicRpcError(new JsonRpcUpstreamError(-32000, "insufficient funds for gas * price + value")),
+    true,
+  );
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32000, "Execution Reverted: STF")), true);
+});
+
+Deno.test("isDeterministicRpcError: node-specific and transport errors are not", () => {
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32601, "method not found")), false);
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32005, "rate limit exceeded")), false);
+  assert.equal(isDeterministicRpcError(new JsonRpcUpstreamError(-32603, "internal error")), false);
+  assert.equal(isDeterministicRpcError(new HttpStatusError(500, "Internal Server Error")), false);
+  assert.equal(isDeterministicRpcError(new Error("execution reverted")), false);
+  assert.equal(isDeterministicRpcError("execution reverted"), false);
+});
+
+Deno.test("JsonRpcUpstreamError and HttpStatusError keep what the upstream sent", () => {
+  const upstream = new JsonRpcUpstreamError(3, "execution reverted", "0xdeadbeef", "https://rpc.example");
+  assert.equal(upstream.code, 3);
+  assert.equal(upstream.data, "0xdeadbeef");
+  assert.equal(upstream.url, "https://rpc.example");
+  const http = new HttpStatusError(429, "Too Many Requests", 2000);
+  assert.equal(http.message, "HTTP error 429 Too Many Requests");
+  assert.equal(http.retryAfterMs, 2000);
+});
@@ -0,0 +1,55 @@
+/**
+ * An error object returned by an upstream RPC in a JSON-RPC response.
+ * Carries the original code, message and data (e.g. revert bytes) so they can be passed to clients unchanged.
+ */
+export class JsonRpcUpstreamError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+  readonly url?: string;
+
+  constructor(code: number, message: string, data?: unknown, url?: string) {
+    super(message);
+    this.name = "JsonRpcUpstreamError";
+    this.code = code;
+    this.data = data;
+    this.url = url;
+  }
+}
+
+/**
+ * A non-2xx HTTP response from an upstream RPC. `retryAfterMs` is parsed from the Retry-After header when present.
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+  readonly url?: string;
+
+  constructor(status: number, statusText: string, retryAfterMs?: number, url?: string) {
+    super(`HTTP error ${status} ${statusText}`);
+    this.name = "HttpStatusError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.url = url;
+  }
+}
+
+// Codes for errors that any correct node would return for the same request
+const DETERMINISTIC_ERROR_CODES = new Set<number>([
+  3, // Execution reverted (with revert data)
+  -32600, // Invalid request
+  -32602, // Invalid params
+]);
+
+const DETERMINISTIC_MESSAGE_PATTERN =
+  /execution reverted|revert|invalid argument|invalid params|insufficient funds|intrinsic gas too low|gas required exceeds allowance/i;
+
+/**
+ * Returns true for upstream errors that another RPC would answer the same way (reverts, invalid params).
+ * These are passed through to the client without failover. Transport errors (HTTP, timeouts, network)
+ * and node-specific errors (rate limits, method not found, internal errors) are not deterministic.
+ */
+export function isDeterministicRpcError(error: unknown): boolean {
+  if (!(error instanceof JsonRpcUpstreamError)) return false;
+  return DETERMINISTIC_ERROR_CODES.has(error.code) ||
+    DETERMINISTIC_MESSAGE_PATTERN.test(error.message);
+}
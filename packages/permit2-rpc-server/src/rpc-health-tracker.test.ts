@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { RpcHealthTracker } from "./rpc-health-tracker.ts";
+import { RpcTransport } from "./rpc-transport.ts";
+
+const RPC_URL = "http://127.0.0.1:9/rpc"; // Nothing listens here, so calls fail fast
+
+// A tracker whose circuit for RPC_URL is half-open: open after two failures, with no wait before probing
+function halfOpenTracker(): RpcHealthTracker {
+  const tracker = new RpcHealthTracker({ failureThreshold: 2, openDurationMs: 0 });
+  tracker.recordFailure(RPC_URL, new Error("boom"));
+  tracker.recordFailure(RPC_URL, new Error("boom"));
+  return tracker;
+}
+
+Deno.test("RpcHealthTracker: opens after consecutive failures and penalizes them in the ranking", () => {
+  const tracker = new RpcHealthTracker({ failureThreshold: 2, openDurationMs: 60_000 });
+  tracker.recordFailure(RPC_URL, new Error("boom"));
+  assert.equal(tracker.isAvailable(RPC_URL), true);
+  assert.equal(tracker.getRankingLatency(RPC_URL, 100), 600);
+  tracker.recordFailure(RPC_URL, new Error("boom"));
+  assert.equal(tracker.isAvailable(RPC_URL), false);
+  assert.equal(tracker.getSnapshot()[RPC_URL].state, "open");
+});
+
+Deno.test("RpcHealthTracker: a half-open circuit lets exactly one probe through", () => {
+  const tracker = halfOpenTracker();
+  assert.equal(tracker.onRequestStart(RPC_URL), "probe");
+  assert.equal(tracker.onRequestStart(RPC_URL), "rejected");
+  assert.equal(tracker.isAvailable(RPC_URL), false);
+  tracker.recordSuccess(RPC_URL, 50);
+  assert.equal(tracker.getSnapshot()[RPC_URL].state, "closed");
+  assert.equal(tracker.onRequestStart(RPC_URL), "request");
+});
+
+Deno.test("RpcHealthTracker: a failed probe re-opens and a released probe frees the slot", () => {
+  const tracker = halfOpenTracker();
+  assert.equal(tracker.onRequestStart(RPC_URL), "probe");
+  tracker.releaseProbe(RPC_URL);
+  assert.equal(tracker.onRequestStart(RPC_URL), "probe");
+  tracker.recordFailure(RPC_URL, new Error("still down"));
+  const { failures, lastError } = tracker.getSnapshot()[RPC_URL];
+  assert.deepEqual({ failures, lastError }, { failures: 3, lastError: "still down" });
+});
+
+Deno.test("RpcTransport: an aborted probe releases the half-open slot", async () => {
+  const tracker = halfOpenTracker();
+  const transport = new RpcTransport(1000, tracker);
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(transport.call(1, RPC_URL, "eth_blockNumber", [], controller.signal));
+  assert.equal(tracker.onRequestStart(RPC_URL), "probe");
+});
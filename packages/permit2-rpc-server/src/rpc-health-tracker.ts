@@ -0,0 +1,171 @@
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit
+  openDurationMs?: number; // How long an open circuit rejects traffic before a half-open probe
+  latencyAlpha?: number; // Smoothing factor for the live latency EWMA (0-1, higher = more reactive)
+}
+
+type CircuitState = "closed" | "open" | "half_open";
+
+export interface RpcHealth {
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  liveLatencyMs: number | null; // EWMA of live request latency
+  openedAt: number | null;
+  lastError?: string;
+}
+
+interface RpcHealthState extends RpcHealth {
+  probeInFlight: boolean;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_OPEN_DURATION_MS = 30 * 1000;
+const DEFAULT_LATENCY_ALPHA = 0.3;
+const FAILURE_PENALTY_MS = 500; // Ranking penalty per consecutive failure on a closed circuit
+
+/**
+ * Tracks live success/failure/latency per RPC URL and runs a circuit breaker for each one.
+ * After `failureThreshold` consecutive failures the circuit opens and the URL is dropped from the
+ * ranking. Once `openDurationMs` has passed, a single half-open probe is let through: success closes
+ * the circuit again, failure re-opens it.
+ */
+export class RpcHealthTracker {
+  private health = new Map<string, RpcHealthState>();
+  private failureThreshold: number;
+  private openDurationMs: number;
+  private latencyAlpha: number;
+  private log: LoggerFn;
+
+  constructor(options: CircuitBreakerOptions = {}, logger?: LoggerFn) {
+    this.failureThreshold = options.failureThreshold ??
+      DEFAULT_FAILURE_THRESHOLD;
+    this.openDurationMs = options.openDurationMs ?? DEFAULT_OPEN_DURATION_MS;
+    this.latencyAlpha = options.latencyAlpha ?? DEFAULT_LATENCY_ALPHA;
+    this.log = logger || (() => {});
+  }
+
+  private getState(url: string): RpcHealthState {
+    let state = this.health.get(url);
+    if (!state) {
+      state = {
+        state: "closed",
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        liveLatencyMs: null,
+        openedAt: null,
+        probeInFlight: false,
+      };
+      this.health.set(url, state);
+    }
+    return state;
+  }
+
+  /**
+   * Called right before a request is sent. On a half-open circuit the first caller claims the single
+   * probe ("probe") and later callers are turned away ("rejected") until it reports an outcome or
+   * releases it. Everything else is a plain "request".
+   */
+  onRequestStart(url: string): "request" | "probe" | "rejected" {
+    const state = this.getState(url);
+    if (this.currentState(state) !== "half_open") return "request";
+    if (state.probeInFlight) return "rejected";
+    state.state = "half_open";
+    state.probeInFlight = true;
+    return "probe";
+  }
+
+  /**
+   * Frees a claimed probe that ended without an outcome (e.g. aborted by the caller), so the next
+   * request can probe instead.
+   */
+  releaseProbe(url: string): void {
+    const state = this.health.get(url);
+    if (state) state.probeInFlight = false;
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const state = this.getState(url);
+    if (state.state !== "closed") {
+      this.log("info", `Circuit for ${url} closed after a successful probe.`);
+    }
+    state.state = "closed";
+    state.openedAt = null;
+    state.probeInFlight = false;
+    state.successes++;
+    state.consecutiveFailures = 0;
+    const previous = state.liveLatencyMs ?? latencyMs;
+    state.liveLatencyMs = this.latencyAlpha * latencyMs + (1 - this.latencyAlpha) * previous;
+  }
+
+  recordFailure(url: string, error: Error): void {
+    const state = this.getState(url);
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastError = error.message;
+    const wasProbe = state.probeInFlight;
+    state.probeInFlight = false;
+    if (wasProbe || state.consecutiveFailures >= this.failureThreshold) {
+      if (state.state !== "open") {
+        this.log(
+          "warn",
+          `Circuit for ${url} opened after ${state.consecutiveFailures} consecutive failures: ${error.message}`,
+        );
+      }
+      state.state = "open";
+      state.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Returns false while a circuit is open, or while its half-open probe is still in flight.
+   */
+  isAvailable(url: string): boolean {
+    const state = this.health.get(url);
+    if (!state) return true;
+    const current = this.currentState(state);
+    if (current === "open") return false;
+    if (current === "half_open") return !state.probeInFlight;
+    return true;
+  }
+
+  /**
+   * Latency used for ranking: the EWMA of live traffic when available (otherwise the tested latency),
+   * plus a penalty for each consecutive failure.
+   */
+  getRankingLatency(url: string, testedLatencyMs: number): number {
+    const state = this.health.get(url);
+    if (!state) return testedLatencyMs;
+    return (state.liveLatencyMs ?? testedLatencyMs) +
+      state.consecutiveFailures * FAILURE_PENALTY_MS;
+  }
+
+  getSnapshot(): Record<string, RpcHealth> {
+    const snapshot: Record<string, RpcHealth> = {};
+    for (const [url, state] of this.health) {
+      const { probeInFlight: _probeInFlight, ...health } = state;
+      snapshot[url] = { ...health, state: this.currentState(state) };
+    }
+    return snapshot;
+  }
+
+  // An open circuit becomes half-open once its open duration has elapsed
+  private currentState(state: RpcHealthState): CircuitState {
+    if (
+      state.state === "open" && state.openedAt !== null &&
+      Date.now() - state.openedAt >= this.openDurationMs
+    ) {
+      return "half_open";
+    }
+    return state.state;
+  }
+}
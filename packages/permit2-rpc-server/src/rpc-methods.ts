@@ -0,0 +1,141 @@
+// Shared classification of JSON-RPC methods used by the manager's caching and routing layers.
+
+// Methods that change chain or node state. These are never cached and never replayed blindly.
+export const WRITE_METHODS = new Set<string>([
+  "eth_sendRawTransaction",
+  "eth_sendTransaction",
+  "eth_sign",
+  "eth_signTransaction",
+  "eth_signTypedData",
+  "eth_signTypedData_v3",
+  "eth_signTypedData_v4",
+  "personal_sign",
+  "personal_sendTransaction",
+  "eth_submitWork",
+  "eth_submitHashrate",
+]);
+
+// Filter and subscription methods. Each call advances per-filter state on the node.
+export const FILTER_METHODS = new Set<string>([
+  "eth_newFilter",
+  "eth_newBlockFilter",
+  "eth_newPendingTransactionFilter",
+  "eth_getFilterChanges",
+  "eth_uninstallFilter",
+  "eth_subscribe",
+  "eth_unsubscribe",
+]);
+
+// Methods whose result never changes for a given chain.
+export const CHAIN_CONSTANT_METHODS = new Set<string>([
+  "eth_chainId",
+  "net_version",
+]);
+
+// Methods addressed by a block or transaction hash. Once they return a non-null result it is immutable.
+export const HASH_ADDRESSED_METHODS = new Set<string>([
+  "eth_getBlockByHash",
+  "eth_getBlockTransactionCountByHash",
+  "eth_getTransactionByHash",
+  "eth_getTransactionByBlockHashAndIndex",
+  "eth_getTransactionReceipt",
+  "eth_getUncleByBlockHashAndIndex",
+  "eth_getUncleCountByBlockHash",
+]);
+
+// Hash-addressed lookups whose result goes from pending to mined, and can still be reorged until finalized.
+export const TRANSACTION_LOOKUP_METHODS = new Set<string>([
+  "eth_getTransactionByHash",
+  "eth_getTransactionReceipt",
+]);
+
+// Methods that read state at a block tag, mapped to the index of their block parameter.
+export const BLOCK_PARAM_INDEX: Record<string, number> = {
+  eth_call: 1,
+  eth_estimateGas: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_getProof: 2,
+  eth_getBlockByNumber: 0,
+  eth_getBlockTransactionCountByNumber: 0,
+  eth_getTransactionByBlockNumberAndIndex: 0,
+  eth_getBlockReceipts: 0,
+};
+
+// Methods whose result depends on account or contract state, so a degraded node may answer wrongly.
+export const STATE_READ_METHODS = new Set<string>([
+  "eth_call",
+  "eth_estimateGas",
+  "eth_createAccessList",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getTransactionCount",
+  "eth_getStorageAt",
+  "eth_getProof",
+]);
+
+// Read-only methods whose value follows the chain head.
+export const HEAD_DEPENDENT_METHODS = new Set<string>([
+  "eth_blockNumber",
+  "eth_gasPrice",
+  "eth_maxPriorityFeePerGas",
+  "eth_blobBaseFee",
+  "eth_feeHistory",
+  "eth_getLogs",
+  "eth_syncing",
+]);
+
+/**
+ * Returns true when a block parameter pins the request to a specific block hash,
+ * either as an EIP-1898 object (`{ blockHash }`) or as a raw 32-byte hash.
+ */
+export function isBlockHashParam(blockParam: unknown): boolean {
+  if (typeof blockParam === "string") {
+    return /^0x[0-9a-fA-F]{64}$/.test(blockParam);
+  }
+  return typeof blockParam === "object" && blockParam !== null &&
+    "blockHash" in blockParam;
+}
+
+/**
+ * Returns the index of a method's block parameter, or undefined when it takes none. Own keys only, so
+ * names like "constructor" never hit Object.prototype.
+ */
+export function blockParamIndex(method: string): number | undefined {
+  return Object.hasOwn(BLOCK_PARAM_INDEX, method) ? BLOCK_PARAM_INDEX[method] : undefined;
+}
+
+/** Returns true for methods that only read data and can safely be sent to several upstreams. */
+export function isReadOnlyMethod(method: string): boolean {
+  return !WRITE_METHODS.has(method) &&
+    (CHAIN_CONSTANT_METHODS.has(method) ||
+      HASH_ADDRESSED_METHODS.has(method) ||
+      HEAD_DEPENDENT_METHODS.has(method) ||
+      blockParamIndex(method) !== undefined);
+}
+
+/**
+ * Returns true when a request reads from or about the given contract address:
+ * the `to` of a call, the account of a state read, or an address of an eth_getLogs filter.
+ */
+export function targetsAddress(method: string, params: unknown[], address: string): boolean {
+  const target = address.toLowerCase();
+  const matches = (value: unknown) => typeof value === "string" && value.toLowerCase() === target;
+  const first = params[0];
+  switch (method) {
+    case "eth_call":
+    case "eth_estimateGas":
+    case "eth_createAccessList":
+      return typeof first === "object" && first !== null && matches((first as { to?: unknown }).to);
+    case "eth_getLogs": {
+      const filterAddress = typeof first === "object" && first !== null
+        ? (first as { address?: unknown }).address
+        : undefined;
+      return Array.isArray(filterAddress) ? filterAddress.some(matches) : matches(filterAddress);
+    }
+    default:
+      return STATE_READ_METHODS.has(method) && matches(first);
+  }
+}
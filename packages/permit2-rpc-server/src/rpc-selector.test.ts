@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { CacheManager } from "./cache-manager.ts";
+import { MemoryCacheStore } from "./cache-store.ts";
+import { ChainlistDataSource } from "./chainlist-data-source.ts";
+import type { LatencyTester, LatencyTestResult } from "./latency-tester.ts";
+import { RpcSelector } from "./rpc-selector.ts";
+
+const URL_A = "https://a.example";
+
+// A second copy of the module, so its in-isolate single-flight map is separate (as in another isolate)
+const otherIsolate = await import("./rpc-selector.ts?isolate=other");
+
+function fakeTester(durationMs: number, calls: string[], name: string): LatencyTester {
+  return {
+    testRpcUrls: async (urls: string[]): Promise<Record<string, LatencyTestResult>> => {
+      calls.push(name);
+      await new Promise((resolve) => setTimeout(resolve, durationMs));
+      return Object.fromEntries(urls.map((url) => [url, { url, latency: 10, status: "ok" as const }]));
+    },
+    probeCapabilities: () => Promise.resolve({}),
+  } as unknown as LatencyTester;
+}
+
+function selectorOptions() {
+  return { testLeaseMs: 150, leasePollIntervalMs: 10, leaseWaitMs: 50 };
+}
+
+Deno.test("RpcSelector: isolates wait for the lease holder's test instead of testing themselves", async () => {
+  const store = new MemoryCacheStore();
+  const dataSource = new ChainlistDataSource(undefined, { rpcs: { "1": [URL_A] } });
+  const calls: string[] = [];
+  const first = new RpcSelector(
+    dataSource,
+    new CacheManager({ store }),
+    fakeTester(300, calls, "first"),
+    undefined,
+    undefined,
+    undefined,
+    selectorOptions(),
+  );
+  const second = new otherIsolate.RpcSelector(
+    dataSource,
+    new CacheManager({ store }),
+    fakeTester(300, calls, "second"),
+    undefined,
+    undefined,
+    undefined,
+    selectorOptions(),
+  );
+
+  const firstList = first.getRankedRpcList(1);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  // The test outlasts both the wait limit and the lease TTL; renewals keep the lease alive
+  const secondList = await second.getRankedRpcList(1);
+
+  assert.deepEqual(secondList, [URL_A]);
+  assert.deepEqual(await firstList, [URL_A]);
+  assert.deepEqual(calls, ["first"]);
+});
+
+Deno.test("RpcSelector: a waiter tests once an abandoned lease expires", async () => {
+  const store = new MemoryCacheStore();
+  const dataSource = new ChainlistDataSource(undefined, { rpcs: { "2": [URL_A] } });
+  const calls: string[] = [];
+  const cacheManager = new CacheManager({ store });
+  // A crashed instance left its lease behind
+  assert.equal(await cacheManager.acquireTestLease(2, "crashed", 100), true);
+  const selector = new RpcSelector(
+    dataSource,
+    cacheManager,
+    fakeTester(10, calls, "waiter"),
+    undefined,
+    undefined,
+    undefined,
+    selectorOptions(),
+  );
+
+  assert.deepEqual(await selector.getRankedRpcList(2), [URL_A]);
+  assert.deepEqual(calls, ["waiter"]);
+});
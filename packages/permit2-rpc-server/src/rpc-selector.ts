@@ -1,6 +1,13 @@
 import { CacheManager } from "./cache-manager.ts";
 import { ChainlistDataSource } from "./chainlist-data-source.ts";
+import { type LatencyStatistic, selectLatency } from "./latency-stats.ts";
+import type { HealthHistory } from "./health-history.ts";
 import { LatencyTester, LatencyTestResult } from "./latency-tester.ts";
+import type { RateLimiter } from "./rate-limiter.ts";
+import { PERMIT2_ADDRESS } from "./contract-registry.ts";
+import { meetsRequirements } from "./rpc-capabilities.ts";
+import { CHAIN_CONSTANT_METHODS, STATE_READ_METHODS, targetsAddress } from "./rpc-methods.ts";
+import type { RpcHealthTracker } from "./rpc-health-tracker.ts";
 
 // Define a logger type
 type LoggerFn = (
@@ -12,10 +19,47 @@ type LoggerFn = (
 // Define acceptable statuses for selection
 const ACCEPTABLE_STATUSES: LatencyTestResult["status"][] = [
   "ok",
+  "lagging",
   "wrong_bytecode",
   "syncing",
 ];
 
+// Statuses allowed for state reads and Permit2-targeted requests: degraded nodes may answer them wrongly
+const STRICT_STATUSES: LatencyTestResult["status"][] = ["ok"];
+
+/**
+ * Returns which statuses may serve a request. State-dependent reads and requests targeting Permit2 need
+ * fully `ok` nodes; chain-agnostic methods (eth_chainId, net_version) and everything else may fall back to
+ * degraded nodes.
+ */
+function statusesFor(method: string | undefined, params: unknown[]): LatencyTestResult["status"][] {
+  if (!method || CHAIN_CONSTANT_METHODS.has(method)) return ACCEPTABLE_STATUSES;
+  if (STATE_READ_METHODS.has(method) || targetsAddress(method, params, PERMIT2_ADDRESS)) {
+    return STRICT_STATUSES;
+  }
+  return ACCEPTABLE_STATUSES;
+}
+
+// Ranking penalty per block a node is behind the consensus head (within the lag threshold)
+const BLOCK_LAG_PENALTY_MS = 50;
+
+// Latency penalty applied to an RPC that disagreed with a consensus read
+const DEMOTION_PENALTY_MS = 1000;
+
+// How long a latency test lease lasts, and how often other isolates check for its result
+const DEFAULT_TEST_LEASE_MS = 60 * 1000;
+const DEFAULT_LEASE_POLL_INTERVAL_MS = 1000;
+// Longest a request waits for another isolate's test before serving stale results (about one test timeout)
+const DEFAULT_LEASE_WAIT_MS = 5000;
+
+export interface RpcSelectorOptions {
+  latencyStatistic?: LatencyStatistic; // Tested latency used for ranking (default "ewma")
+  testLeaseMs?: number; // Lease on a chain's latency test shared across isolates (default 60 s)
+  leasePollIntervalMs?: number; // Poll interval while another isolate holds the lease (default 1 s)
+  leaseWaitMs?: number; // Serve previous results after waiting this long for another isolate's (default 5 s)
+  healthHistory?: HealthHistory; // Records each test run; may down-rank chronically flaky RPCs
+}
+
 // Map to track ongoing latency tests for specific chains
 const ongoingLatencyTests = new Map<
   number,
@@ -27,30 +71,78 @@ export class RpcSelector {
   private cacheManager: CacheManager;
   private latencyTester: LatencyTester;
   private log: LoggerFn;
+  private healthTracker: RpcHealthTracker | null;
+  private rateLimiter: RateLimiter | null;
+  private latencyStatistic: LatencyStatistic;
+  private testLeaseMs: number;
+  private leasePollIntervalMs: number;
+  private leaseWaitMs: number;
+  private leaseOwner = crypto.randomUUID(); // Identifies this instance in test leases
+  private healthHistory: HealthHistory | null;
 
   constructor(
     dataSource: ChainlistDataSource,
     cacheManager: CacheManager,
     latencyTester: LatencyTester,
     logger?: LoggerFn,
+    healthTracker?: RpcHealthTracker,
+    rateLimiter?: RateLimiter,
+    options: RpcSelectorOptions = {},
   ) {
     this.dataSource = dataSource;
     this.cacheManager = cacheManager;
     this.latencyTester = latencyTester;
     this.log = logger || (() => {});
+    this.healthTracker = healthTracker ?? null;
+    this.rateLimiter = rateLimiter ?? null;
+    this.latencyStatistic = options.latencyStatistic ?? "ewma";
+    this.testLeaseMs = options.testLeaseMs ?? DEFAULT_TEST_LEASE_MS;
+    this.leasePollIntervalMs = options.leasePollIntervalMs ?? DEFAULT_LEASE_POLL_INTERVAL_MS;
+    this.leaseWaitMs = options.leaseWaitMs ?? DEFAULT_LEASE_WAIT_MS;
+    this.healthHistory = options.healthHistory ?? null;
   }
 
   /**
    * Gets a ranked list of available RPC URLs for the given chain ID.
    * Fetches from cache or performs latency tests if needed.
    * Filters out RPCs with error statuses.
-   * Sorts the remaining RPCs by status priority (ok > wrong_bytecode > syncing) and then by latency.
-   * Ensures only one latency test runs concurrently per chain ID.
+   * Sorts the remaining RPCs by status priority (ok > lagging > wrong_bytecode > syncing) and then by
+   * the configured latency statistic (EWMA across test runs by default), with a penalty for each block a node is behind the chain head.
+   * Live traffic signals from the health tracker are applied on every call: RPCs with an open circuit
+   * are dropped and the tested latency is replaced by the live latency (plus a failure penalty).
+   * With flaky down-ranking enabled, RPCs whose historical uptime is below the threshold get a penalty too.
+   * Whitelist metadata applies as well: lower tiers rank first within a status, the ranking latency is
+   * divided by the endpoint's weight, and a declared archive flag overrides the probed one.
+   * When a method is given, state-dependent reads and requests targeting Permit2 only get `ok` RPCs, and
+   * RPCs whose probed capabilities cannot serve it are filtered out
+   * (unless none would remain). RPCs in a rate-limit cooldown are dropped the same way, and RPCs
+   * whose client-side quota is used up move to the end.
+   * Ensures only one latency test runs concurrently per chain ID. Once the cached results are older than
+   * the refresh interval (but not yet expired) they are still served while a test runs in the background.
    *
    * @param chainId - The chain ID.
+   * @param method - Optional JSON-RPC method the list will be used for.
+   * @param params - Optional params of that method.
    * @returns A promise that resolves to a sorted array of usable RPC URLs.
    */
-  async getRankedRpcList(chainId: number): Promise<string[]> {
+  async getRankedRpcList(
+    chainId: number,
+    method?: string,
+    params: unknown[] = [],
+  ): Promise<string[]> {
+    const rankedResults = await this.getRankedRpcResults(chainId, method, params);
+    return rankedResults.map((result) => result.url);
+  }
+
+  /**
+   * Same as `getRankedRpcList`, but returns the full latency test results in ranked order.
+   * `latency` holds the effective ranking latency (live latency and penalties applied).
+   */
+  async getRankedRpcResults(
+    chainId: number,
+    method?: string,
+    params: unknown[] = [],
+  ): Promise<LatencyTestResult[]> {
     let latencyMap = await this.cacheManager.getLatencyMap(chainId);
     // Use const as this variable is not reassigned before the next block
     const fastestCachedRpc = await this.cacheManager.getFastestRpc(chainId);
@@ -72,68 +164,213 @@ export class RpcSelector {
         );
       }
 
-      // --- Latency Test Locking ---
-      let testPromise = ongoingLatencyTests.get(chainId);
-      if (testPromise) {
-        this.log(
-          "debug",
-          `Latency test already in progress for chain ${chainId}, awaiting result...`,
+      latencyMap = await this._runLatencyTest(chainId);
+    } else if (await this.cacheManager.needsRefresh(chainId)) {
+      // Serve the stale ranking now; the refresh replaces it once done
+      this.log(
+        "debug",
+        `Cached latency map for chain ${chainId} is due for refresh, re-testing in the background.`,
+      );
+      void this._runLatencyTest(chainId);
+    } else {
+      this.log("debug", `Using valid cached latency map for chain ${chainId}.`);
+    }
+
+    // Filter and sort the results from the (potentially updated) latency map
+    await this.healthHistory?.prepareRanking(chainId);
+    const rankedList = await this._applyRateLimits(
+      this._rankResults(chainId, latencyMap, statusesFor(method, params)),
+    );
+    this.log("debug", `Ranked RPC list for chain ${chainId}:`, rankedList.map((result) => result.url));
+    if (!method || !latencyMap) return rankedList;
+
+    const capableList = rankedList.filter((result) =>
+      meetsRequirements(this._declaredCapabilities(chainId, result), method, params)
+    );
+    if (capableList.length === 0) {
+      this.log(
+        "debug",
+        `No RPC for chain ${chainId} advertises the capabilities ${method} needs, using the full list.`,
+      );
+      return rankedList;
+    }
+    return capableList;
+  }
+
+  private async _applyRateLimits(rankedList: LatencyTestResult[]): Promise<LatencyTestResult[]> {
+    if (!this.rateLimiter) return rankedList;
+    const availableUrls = await this.rateLimiter.filterAvailable(rankedList.map((result) => result.url));
+    const byUrl = new Map(rankedList.map((result) => [result.url, result]));
+    return availableUrls.map((url) => byUrl.get(url)!);
+  }
+
+  /**
+   * Re-tests the chain's RPCs and updates the cache, e.g. from a scheduled job.
+   * Joins the test that is already running for the chain, if any.
+   */
+  async refreshLatency(chainId: number): Promise<void> {
+    await this._runLatencyTest(chainId);
+  }
+
+  /**
+   * Runs a latency test for the chain and stores the results in the cache.
+   * Ensures only one latency test runs concurrently per chain ID: within the isolate through a shared promise,
+   * across isolates through a lease in the cache store (others wait for the holder's results while its lease
+   * lives, using the previous results after `leaseWaitMs` if there are any, and test only once they hold the
+   * lease themselves). The holder renews its lease while testing.
+   * Never rejects (a failed test yields an empty map).
+   */
+  private _runLatencyTest(chainId: number): Promise<Record<string, LatencyTestResult>> {
+    const ongoingTest = ongoingLatencyTests.get(chainId);
+    if (ongoingTest) {
+      this.log(
+        "debug",
+        `Latency test already in progress for chain ${chainId}, awaiting result...`,
+      );
+      return ongoingTest;
+    }
+
+    const rpcUrls = this.dataSource.getRpcUrls(chainId);
+    if (rpcUrls.length === 0) {
+      this.log(
+        "warn",
+        `No RPC URLs found for chain ${chainId} in data source.`,
+      );
+      return Promise.resolve({}); // No URLs to test
+    }
+
+    this.log("debug", `Initiated latency test for chain ${chainId}.`);
+    const testPromise = (async () => {
+      const startedAt = Date.now();
+      let leased = false;
+      let renewal: ReturnType<typeof setInterval> | undefined;
+      try {
+        leased = await this.cacheManager.acquireTestLease(chainId, this.leaseOwner, this.testLeaseMs);
+        while (!leased) {
+          const leasedResults = await this._awaitLeasedTest(chainId, startedAt);
+          if (leasedResults) return leasedResults;
+          // The lease is gone without new results (e.g. the holder crashed): only whoever takes it over tests
+          leased = await this.cacheManager.acquireTestLease(chainId, this.leaseOwner, this.testLeaseMs);
+        }
+        renewal = setInterval(
+          () => void this.cacheManager.acquireTestLease(chainId, this.leaseOwner, this.testLeaseMs),
+          this.testLeaseMs / 3,
         );
-        latencyMap = await testPromise; // Wait for the ongoing test
-      } else {
-        const rpcUrls = this.dataSource.getRpcUrls(chainId);
-        if (rpcUrls.length === 0) {
+        // Previous results (even expired ones) carry each RPC's EWMA into the new run
+        const previousMap = await this.cacheManager.getLatencyMap(chainId);
+        const latencyMap = await this.latencyTester.testRpcUrls(rpcUrls, chainId, previousMap);
+        // Find the new fastest based on the fresh test results
+        const newFastest = this._findFastestInMap(latencyMap);
+        await this.cacheManager.updateChainCache(
+          chainId,
+          latencyMap,
+          newFastest?.url ?? null,
+        );
+        await this.healthHistory?.record(chainId, latencyMap);
+        void this._probeCapabilities(chainId, latencyMap);
+        if (newFastest) {
+          this.log(
+            "info",
+            `Selected fastest RPC for chain ${chainId}: ${newFastest.url} (${newFastest.latency}ms, status: ${newFastest.status})`,
+          );
+        } else {
           this.log(
             "warn",
-            `No RPC URLs found for chain ${chainId} in data source.`,
+            `No responsive RPCs found meeting criteria (${
+              ACCEPTABLE_STATUSES.join(" > ")
+            }) for chain ${chainId} after testing.`,
           );
-          return []; // No URLs to test
         }
+        return latencyMap;
+      } catch (error) {
+        this.log("error", `Latency test failed for chain ${chainId}`, error);
+        return {}; // Empty map on error
+      } finally {
+        clearInterval(renewal);
+        if (leased) await this.cacheManager.releaseTestLease(chainId, this.leaseOwner);
+        ongoingLatencyTests.delete(chainId); // Remove promise once done
+        this.log("debug", `Latency test finished for chain ${chainId}.`);
+      }
+    })();
+    ongoingLatencyTests.set(chainId, testPromise);
+    return testPromise;
+  }
 
-        // Create the promise, store it, run the test, then remove it
-        testPromise = this.latencyTester.testRpcUrls(rpcUrls);
-        ongoingLatencyTests.set(chainId, testPromise);
-        this.log("debug", `Initiated latency test for chain ${chainId}.`);
-
-        try {
-          latencyMap = await testPromise;
-          // Find the new fastest based on the fresh test results
-          const newFastest = this._findFastestInMap(latencyMap);
-          await this.cacheManager.updateChainCache(
-            chainId,
-            latencyMap,
-            newFastest?.url ?? null,
-          );
-          if (newFastest) {
-            this.log(
-              "info",
-              `Selected fastest RPC for chain ${chainId}: ${newFastest.url} (${newFastest.latency}ms, status: ${newFastest.status})`,
-            );
-          } else {
-            this.log(
-              "warn",
-              `No responsive RPCs found meeting criteria (${
-                ACCEPTABLE_STATUSES.join(" > ")
-              }) for chain ${chainId} after testing.`,
-            );
-          }
-        } catch (error) {
-          this.log("error", `Latency test failed for chain ${chainId}`, error);
-          latencyMap = {}; // Set empty map on error
-        } finally {
-          ongoingLatencyTests.delete(chainId); // Remove promise once done
-          this.log("debug", `Latency test finished for chain ${chainId}.`);
-        }
+  /**
+   * Waits while another isolate holds the chain's test lease. Returns the results it stored after `since`,
+   * the previous results once `leaseWaitMs` has passed (if there are any), or null once the lease is gone
+   * (released or expired) without new results.
+   */
+  private async _awaitLeasedTest(
+    chainId: number,
+    since: number,
+  ): Promise<Record<string, LatencyTestResult> | null> {
+    this.log("debug", `Latency test for chain ${chainId} is leased by another instance, waiting for its results...`);
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, this.leasePollIntervalMs));
+      const lease = await this.cacheManager.getTestLease(chainId);
+      const chainCache = await this.cacheManager.reloadChainCache(chainId);
+      if (chainCache && chainCache.lastTested >= since) {
+        this.log("debug", `Reusing latency results for chain ${chainId} from another instance.`);
+        return chainCache.latencyMap;
+      }
+      if (!lease) return null;
+      // The holder is still testing; stale results beat holding the request any longer
+      if (Date.now() - since >= this.leaseWaitMs && chainCache && Object.keys(chainCache.latencyMap).length > 0) {
+        this.log("debug", `Using stale latency results for chain ${chainId} while another instance tests.`);
+        return chainCache.latencyMap;
       }
-      // --- End Latency Test Locking ---
-    } else {
-      this.log("debug", `Using valid cached latency map for chain ${chainId}.`);
     }
+  }
 
-    // Filter and sort the results from the (potentially updated) latency map
-    const rankedList = this._rankResults(latencyMap);
-    this.log("debug", `Ranked RPC list for chain ${chainId}:`, rankedList);
-    return rankedList;
+  /**
+   * Returns the smallest eth_getLogs block range any usable RPC of the chain is known to accept,
+   * or null if no limits were probed.
+   */
+  async getLogsRangeLimit(chainId: number): Promise<number | null> {
+    const latencyMap = await this.cacheManager.getLatencyMap(chainId);
+    const limits = this._rankResults(chainId, latencyMap)
+      .map((result) => result.capabilities?.maxLogsRange)
+      .filter((limit): limit is number => typeof limit === "number");
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  /**
+   * Probes the capabilities a test run left unknown or expired and patches them into the cached results.
+   * Runs in the background once the results are stored, so probing never delays a request. Never rejects.
+   */
+  private async _probeCapabilities(chainId: number, latencyMap: Record<string, LatencyTestResult>): Promise<void> {
+    try {
+      const probed = await this.latencyTester.probeCapabilities(latencyMap, chainId);
+      for (const [url, capabilities] of Object.entries(probed)) {
+        await this.cacheManager.patchLatencyResult(chainId, url, { capabilities });
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `Capability probing failed for chain ${chainId}:`, error);
+    }
+  }
+
+  /**
+   * Pushes an RPC down the ranking, e.g. after it disagreed with a consensus read. The penalty lasts until
+   * the next latency test, except for the share carried over in the EWMA.
+   */
+  async demoteRpc(chainId: number, url: string, reason: string): Promise<void> {
+    const latencyMap = await this.cacheManager.getLatencyMap(chainId);
+    const current = latencyMap?.[url];
+    if (!current || !Number.isFinite(current.latency)) return;
+    this.log(
+      "warn",
+      `Demoting RPC ${url} for chain ${chainId}: ${reason}`,
+    );
+    const penalize = (value?: number) => value === undefined ? undefined : value + DEMOTION_PENALTY_MS;
+    await this.cacheManager.patchLatencyResult(chainId, url, {
+      latency: current.latency + DEMOTION_PENALTY_MS,
+      p50: penalize(current.p50),
+      p95: penalize(current.p95),
+      ewma: penalize(current.ewma),
+      error: reason,
+    });
   }
 
   /**
@@ -151,7 +388,7 @@ export class RpcSelector {
       for (const url in latencyMap) {
         const result = latencyMap[url];
         if (result?.status === status) {
-          if (!fastestForStatus || result.latency < fastestForStatus.latency) {
+          if (!fastestForStatus || this._testedLatency(result) < this._testedLatency(fastestForStatus)) {
             fastestForStatus = result;
           }
         }
@@ -168,25 +405,69 @@ export class RpcSelector {
    * Helper to filter and rank RPC results based on status and latency.
    */
   private _rankResults(
+    chainId: number,
     latencyMap: Record<string, LatencyTestResult> | null,
-  ): string[] {
+    statuses: LatencyTestResult["status"][] = ACCEPTABLE_STATUSES,
+  ): LatencyTestResult[] {
     if (!latencyMap) return [];
 
-    const validResults = Object.values(latencyMap).filter(
-      (result) => result && ACCEPTABLE_STATUSES.includes(result.status),
+    // Results of endpoints since disabled or removed from the whitelist are skipped
+    const whitelisted = new Set(this.dataSource.getRpcUrls(chainId));
+    const acceptableResults = Object.values(latencyMap).filter(
+      (result) => result && statuses.includes(result.status) && whitelisted.has(result.url),
     );
+    const tracker = this.healthTracker;
 
-    // Sort by status priority, then latency
+    // Drop RPCs whose circuit is open, unless that would leave nothing to try
+    const availableResults = tracker ? acceptableResults.filter((result) => tracker.isAvailable(result.url)) : [];
+    const validResults = (availableResults.length > 0 ? availableResults : acceptableResults)
+      .map((result) => {
+        const testedLatency = this._testedLatency(result);
+        const weight = this.dataSource.getEndpoint(chainId, result.url)?.weight ?? 1;
+        return {
+          ...result,
+          latency: ((tracker ? tracker.getRankingLatency(result.url, testedLatency) : testedLatency) +
+            (result.blockLag ?? 0) * BLOCK_LAG_PENALTY_MS +
+            (this.healthHistory ? this.healthHistory.getPenaltyMs(chainId, result.url) : 0)) /
+            weight,
+        };
+      });
+    return this._sortResults(chainId, validResults);
+  }
+
+  // The configured statistic of a result's tested latency
+  private _testedLatency(result: LatencyTestResult): number {
+    return selectLatency(result, this.latencyStatistic);
+  }
+
+  // Probed capabilities, with the archive flag declared in the whitelist taking precedence
+  private _declaredCapabilities(chainId: number, result: LatencyTestResult): LatencyTestResult["capabilities"] {
+    const archive = this.dataSource.getEndpoint(chainId, result.url)?.archive;
+    if (archive === undefined || !result.capabilities) return result.capabilities;
+    return { ...result.capabilities, archive };
+  }
+
+  /**
+   * Helper to sort results by status priority, then whitelist tier, then latency.
+   */
+  private _sortResults(chainId: number, validResults: LatencyTestResult[]): LatencyTestResult[] {
+    const tierOf = (result: LatencyTestResult) => this.dataSource.getEndpoint(chainId, result.url)?.tier ?? 1;
+    // Sort by status priority, then tier, then latency
     validResults.sort((a, b) => {
       const statusA = ACCEPTABLE_STATUSES.indexOf(a.status);
       const statusB = ACCEPTABLE_STATUSES.indexOf(b.status);
       if (statusA !== statusB) {
         return statusA - statusB; // Lower index (better status) comes first
       }
+      const tierA = tierOf(a);
+      const tierB = tierOf(b);
+      if (tierA !== tierB) {
+        return tierA - tierB; // Lower tier (preferred endpoints) comes first
+      }
       return a.latency - b.latency; // Lower latency comes first
     });
 
-    return validResults.map((result) => result.url);
+    return validResults;
   }
 
   // --- Deprecated Methods (to be removed or kept for internal use if needed) ---
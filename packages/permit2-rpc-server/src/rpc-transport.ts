@@ -0,0 +1,164 @@
+import { parseRetryAfter, type RateLimiter } from "./rate-limiter.ts";
+import { HttpStatusError, isDeterministicRpcError, JsonRpcUpstreamError } from "./rpc-errors.ts";
+import type { RpcHealthTracker } from "./rpc-health-tracker.ts";
+import type { HeadersFn } from "./whitelist-schema.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown[];
+  id: number | string;
+}
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | string;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+/**
+ * Performs single JSON-RPC calls over HTTP and reports every outcome to the health tracker
+ * and rate limits to the rate limiter.
+ */
+export class RpcTransport {
+  private requestTimeoutMs: number;
+  private healthTracker: RpcHealthTracker;
+  private rateLimiter: RateLimiter | null;
+  private headersFor: HeadersFn | null;
+  private log: LoggerFn;
+
+  constructor(
+    requestTimeoutMs: number,
+    healthTracker: RpcHealthTracker,
+    logger?: LoggerFn,
+    rateLimiter?: RateLimiter,
+    headersFor?: HeadersFn,
+  ) {
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.healthTracker = healthTracker;
+    this.rateLimiter = rateLimiter ?? null;
+    this.headersFor = headersFor ?? null;
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Executes a single JSON-RPC call to the specified URL of a chain (which selects the endpoint's headers).
+   * An optional signal lets callers (e.g. hedged requests) abort the call early; aborted calls
+   * are not counted against the RPC's health. Deterministic errors (reverts) count as successes,
+   * since the node answered correctly. Calls over a provider's client-side quota, and calls to a
+   * half-open circuit whose single probe is already in flight, fail without reaching the network.
+   */
+  async call<T = unknown>(
+    chainId: number,
+    url: string,
+    method: string,
+    params: unknown[],
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (this.rateLimiter && !this.rateLimiter.tryAcquire(url)) {
+      throw new Error(`Client-side rate limit reached for ${url}`);
+    }
+    const claim = this.healthTracker.onRequestStart(url);
+    if (claim === "rejected") {
+      throw new Error(`Circuit for ${url} is half-open and its probe is already in flight`);
+    }
+    const startTime = Date.now();
+    let reported = false;
+    try {
+      const result = await this.fetchRpc<T>(chainId, url, method, params, signal);
+      this.healthTracker.recordSuccess(url, Date.now() - startTime);
+      reported = true;
+      return result;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      if (isDeterministicRpcError(error)) {
+        this.healthTracker.recordSuccess(url, Date.now() - startTime);
+        reported = true;
+      } else if (!signal?.aborted) {
+        this.healthTracker.recordFailure(url, error);
+        reported = true;
+        this.rateLimiter?.recordError(url, error);
+      }
+      throw error;
+    } finally {
+      // An aborted probe says nothing about the RPC; let the next request probe instead
+      if (claim === "probe" && !reported) this.healthTracker.releaseProbe(url);
+    }
+  }
+
+  private async fetchRpc<T>(
+    chainId: number,
+    url: string,
+    method: string,
+    params: unknown[],
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.requestTimeoutMs,
+    );
+    signal?.addEventListener("abort", () => controller.abort(), { once: true });
+
+    const requestBody: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      method,
+      params,
+      id: `rpc-call-${Date.now()}`,
+    };
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { ...this.headersFor?.(chainId, url), "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+      if (!response.ok) {
+        throw new HttpStatusError(
+          response.status,
+          response.statusText,
+          parseRetryAfter(response.headers.get("Retry-After")),
+          url,
+        );
+      }
+      const responseData: JsonRpcResponse = await response.json();
+      // Check if error exists before accessing its properties
+      if (responseData.error) {
+        throw new JsonRpcUpstreamError(
+          responseData.error.code,
+          responseData.error.message,
+          responseData.error.data,
+          url,
+        );
+      }
+      // Check if result is explicitly undefined (it could be null which is valid JSON-RPC)
+      if (responseData.result === undefined) {
+        this.log("warn", `RPC response for ${method} had undefined result.`);
+      }
+      return responseData.result as unknown as T;
+    } catch (error) { // Catch as unknown
+      clearTimeout(timeoutId);
+      // Check if it's an AbortError
+      if (error instanceof Error && error.name === "AbortError") {
+        if (signal?.aborted) {
+          throw new Error("Request aborted by caller");
+        }
+        throw new Error(`Request timed out after ${this.requestTimeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import type { LatencyTestResult } from "./latency-tester.ts";
+import {
+  createSelectionStrategy,
+  LatencyWeightedStrategy,
+  LeastOutstandingStrategy,
+  RoundRobinStrategy,
+  type SelectionContext,
+} from "./selection-strategy.ts";
+
+const candidates: LatencyTestResult[] = [
+  { url: "a", latency: 10, status: "ok" },
+  { url: "b", latency: 20, status: "ok" },
+  { url: "c", latency: 40, status: "ok" },
+];
+const urls = (results: LatencyTestResult[]) => results.map((result) => result.url);
+const context = (chainId = 1, outstanding: Record<string, number> = {}): SelectionContext => ({
+  chainId,
+  method: "eth_call",
+  outstanding: (url) => outstanding[url] ?? 0,
+});
+
+Deno.test("RoundRobinStrategy: rotates the start per chain and keeps the rest as failover order", () => {
+  const strategy = new RoundRobinStrategy();
+  assert.deepEqual(urls(strategy.order(candidates, context(1))), ["a", "b", "c"]);
+  assert.deepEqual(urls(strategy.order(candidates, context(1))), ["b", "c", "a"]);
+  assert.deepEqual(urls(strategy.order(candidates, context(100))), ["a", "b", "c"]);
+  assert.deepEqual(urls(strategy.order(candidates, context(1))), ["c", "a", "b"]);
+  assert.deepEqual(urls(strategy.order(candidates, context(1))), ["a", "b", "c"]);
+  assert.deepEqual(strategy.order([], context(1)), []);
+});
+
+Deno.test("LeastOutstandingStrategy: starts with the least busy RPC, ranked order among ties", () => {
+  const strategy = new LeastOutstandingStrategy();
+  assert.deepEqual(urls(strategy.order(candidates, context(1, { a: 2, b: 1 }))), ["c", "b", "a"]);
+  assert.deepEqual(urls(strategy.order(candidates, context(1, { b: 1 }))), ["a", "c", "b"]);
+});
+
+Deno.test("LatencyWeightedStrategy: draws by inverse latency without replacement", () => {
+  const strategy = new LatencyWeightedStrategy();
+  const random = Math.random;
+  try {
+    // Weights 1/10, 1/20, 1/40: a 0.99 draw lands on the slowest RPC
+    Math.random = () => 0.99;
+    assert.deepEqual(urls(strategy.order(candidates)), ["c", "b", "a"]);
+    Math.random = () => 0;
+    assert.deepEqual(urls(strategy.order(candidates)), ["a", "b", "c"]);
+  } finally {
+    Math.random = random;
+  }
+});
+
+Deno.test("createSelectionStrategy: builds strategies by name and passes custom ones through", () => {
+  assert.equal(createSelectionStrategy("round-robin").name, "round-robin");
+  assert.equal(createSelectionStrategy("fastest-first").order(candidates, context()), candidates);
+  const custom = { name: "custom", order: (results: LatencyTestResult[]) => results };
+  assert.equal(createSelectionStrategy(custom), custom);
+  assert.throws(() => createSelectionStrategy("random" as "round-robin"), /Unknown selection strategy: random/);
+});
@@ -0,0 +1,113 @@
+import type { LatencyTestResult } from "./latency-tester.ts";
+
+export interface SelectionContext {
+  chainId: number;
+  method: string;
+  outstanding: (url: string) => number; // Requests currently in flight to a URL from this manager
+}
+
+/**
+ * Decides the order in which the ranked RPCs are tried for one request. The first URL is tried
+ * first; the rest are the failover order. `candidates` arrive ranked by status and latency, with
+ * `latency` holding the effective ranking latency.
+ */
+export interface SelectionStrategy {
+  readonly name: string;
+  order(candidates: LatencyTestResult[], context: SelectionContext): LatencyTestResult[];
+}
+
+export type SelectionStrategyName =
+  | "round-robin"
+  | "fastest-first"
+  | "latency-weighted"
+  | "least-outstanding";
+
+export interface SelectionOptions {
+  strategy?: SelectionStrategyName | SelectionStrategy; // Default for every chain (round-robin)
+  chains?: Record<string, SelectionStrategyName | SelectionStrategy>; // Per-chain overrides
+}
+
+// Latency floor for weighting, so a 0ms result doesn't take all the traffic
+const MIN_WEIGHT_LATENCY_MS = 10;
+
+/**
+ * Rotates the starting RPC on every request, spreading load evenly over the ranked list.
+ */
+export class RoundRobinStrategy implements SelectionStrategy {
+  readonly name = "round-robin";
+  private nextIndex = new Map<number, number>(); // Next start index per chain
+
+  order(candidates: LatencyTestResult[], { chainId }: SelectionContext): LatencyTestResult[] {
+    if (candidates.length === 0) return candidates;
+    const startIndex = (this.nextIndex.get(chainId) ?? 0) % candidates.length;
+    this.nextIndex.set(chainId, (startIndex + 1) % candidates.length);
+    return [...candidates.slice(startIndex), ...candidates.slice(0, startIndex)];
+  }
+}
+
+/**
+ * Always starts with the best ranked RPC; the others are only used for failover.
+ */
+export class FastestFirstStrategy implements SelectionStrategy {
+  readonly name = "fastest-first";
+
+  order(candidates: LatencyTestResult[]): LatencyTestResult[] {
+    return candidates;
+  }
+}
+
+/**
+ * Picks RPCs at random, weighted by the inverse of their latency: faster nodes get more traffic,
+ * slower ones still get some. The failover order is drawn the same way without replacement.
+ */
+export class LatencyWeightedStrategy implements SelectionStrategy {
+  readonly name = "latency-weighted";
+
+  order(candidates: LatencyTestResult[]): LatencyTestResult[] {
+    const remaining = [...candidates];
+    const ordered: LatencyTestResult[] = [];
+    while (remaining.length > 0) {
+      const weights = remaining.map((result) => 1 / Math.max(result.latency, MIN_WEIGHT_LATENCY_MS));
+      let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+      let index = 0;
+      while (index < remaining.length - 1 && pick >= weights[index]) {
+        pick -= weights[index];
+        index++;
+      }
+      ordered.push(...remaining.splice(index, 1));
+    }
+    return ordered;
+  }
+}
+
+/**
+ * Starts with the RPC that has the fewest requests in flight, keeping the ranked order among ties.
+ */
+export class LeastOutstandingStrategy implements SelectionStrategy {
+  readonly name = "least-outstanding";
+
+  order(candidates: LatencyTestResult[], { outstanding }: SelectionContext): LatencyTestResult[] {
+    return [...candidates].sort((a, b) => outstanding(a.url) - outstanding(b.url));
+  }
+}
+
+/**
+ * Creates a built-in strategy by name, or returns a custom strategy as-is.
+ */
+export function createSelectionStrategy(
+  strategy: SelectionStrategyName | SelectionStrategy,
+): SelectionStrategy {
+  if (typeof strategy !== "string") return strategy;
+  switch (strategy) {
+    case "round-robin":
+      return new RoundRobinStrategy();
+    case "fastest-first":
+      return new FastestFirstStrategy();
+    case "latency-weighted":
+      return new LatencyWeightedStrategy();
+    case "least-outstanding":
+      return new LeastOutstandingStrategy();
+    default:
+      throw new Error(`Unknown selection strategy: ${String(strategy)}`);
+  }
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { extractBlockNumber, SessionTracker } from "./session-tracker.ts";
+
+const CHAIN_ID = 1;
+const SESSION = "session-1";
+
+Deno.test("extractBlockNumber: reads the block a response proves", () => {
+  assert.equal(extractBlockNumber("eth_blockNumber", "0x64"), 100);
+  assert.equal(extractBlockNumber("eth_getBlockByNumber", { number: "0x10" }), 16);
+  assert.equal(extractBlockNumber("eth_getTransactionReceipt", { blockNumber: "0x20" }), 32);
+  assert.equal(extractBlockNumber("eth_getLogs", [{ blockNumber: "0x5" }, { blockNumber: "0x9" }]), 9);
+  assert.equal(extractBlockNumber("eth_getTransactionByHash", { blockNumber: null }), null);
+  assert.equal(extractBlockNumber("eth_call", "0x64"), null);
+});
+
+Deno.test("SessionTracker: seeds heads from latency tests and leaves out RPCs behind the session", () => {
+  const tracker = new SessionTracker();
+  tracker.observeHeads(
+    CHAIN_ID,
+    [{ url: "a", blockNumber: 100 }, { url: "b", blockNumber: 90 }, { url: "c" }],
+    Date.now(),
+  );
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, SESSION, ["b", "c", "a"]), ["b", "c", "a"]);
+
+  tracker.recordResult(CHAIN_ID, SESSION, "a", "eth_blockNumber", "0x64");
+  // Caught-up RPCs first (the pinned one leading), then unknown heights; "b" is known to be behind
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, SESSION, ["b", "c", "a"]), ["a", "c"]);
+  // Heads are tracked per chain, so the same URL on another chain is unknown there
+  tracker.recordResult(137, SESSION, "b", "eth_blockNumber", "0x1");
+  assert.deepEqual(tracker.orderForSession(137, SESSION, ["a", "b"]), ["b", "a"]);
+});
+
+Deno.test("SessionTracker: RPCs behind on an old head are tried last instead of left out", () => {
+  const tracker = new SessionTracker({ headMaxAgeMs: 30_000 });
+  const anHourAgo = Date.now() - 60 * 60 * 1000;
+  tracker.observeHeads(CHAIN_ID, [{ url: "a", blockNumber: 90 }, { url: "b", blockNumber: 95 }], anHourAgo);
+  tracker.recordResult(CHAIN_ID, SESSION, "c", "eth_blockNumber", "0x64");
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, SESSION, ["a", "b", "d", "c"]), ["c", "d", "a", "b"]);
+  // Their responses are still checked against the session
+  assert.equal(tracker.isBehindSession(CHAIN_ID, SESSION, "eth_blockNumber", [], "0x5f"), true);
+
+  // A fresh observation counts again: "a" has caught up, "b" is known to be behind
+  tracker.recordResult(CHAIN_ID, undefined, "a", "eth_blockNumber", "0x64");
+  tracker.recordResult(CHAIN_ID, undefined, "b", "eth_blockNumber", "0x60");
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, SESSION, ["a", "b", "d", "c"]), ["c", "a", "d"]);
+});
+
+Deno.test("SessionTracker: monotonic mode does not pin", () => {
+  const tracker = new SessionTracker({ mode: "monotonic" });
+  tracker.observeHeads(CHAIN_ID, [{ url: "a", blockNumber: 100 }, { url: "b", blockNumber: 100 }], Date.now());
+  tracker.recordResult(CHAIN_ID, SESSION, "b", "eth_blockNumber", "0x64");
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, SESSION, ["a", "b"]), ["a", "b"]);
+});
+
+Deno.test("SessionTracker: flags responses that would move the session backwards", () => {
+  const tracker = new SessionTracker();
+  tracker.recordResult(CHAIN_ID, SESSION, "a", "eth_getBlockByNumber", { number: "0x64" });
+  const isBehind = (method: string, params: unknown[], result: unknown) =>
+    tracker.isBehindSession(CHAIN_ID, SESSION, method, params, result);
+
+  assert.equal(isBehind("eth_blockNumber", [], "0x63"), true);
+  assert.equal(isBehind("eth_blockNumber", [], "0x64"), false);
+  assert.equal(isBehind("eth_getBlockByNumber", ["latest", false], { number: "0x50" }), true);
+  assert.equal(isBehind("eth_getBlockByNumber", ["0x64", false], null), true);
+  assert.equal(isBehind("eth_getBlockByNumber", ["0x65", false], null), false);
+  // Old blocks are fine to read
+  assert.equal(isBehind("eth_getBlockByNumber", ["0x10", false], { number: "0x10" }), false);
+  assert.equal(tracker.isBehindSession(CHAIN_ID, undefined, "eth_blockNumber", [], "0x1"), false);
+  assert.equal(tracker.isBehindSession(CHAIN_ID, "other", "eth_blockNumber", [], "0x1"), false);
+});
+
+Deno.test("SessionTracker: sessions expire and the oldest are evicted", async () => {
+  const tracker = new SessionTracker({ ttlMs: 20, maxSessions: 1 });
+  tracker.observeHeads(CHAIN_ID, [{ url: "a", blockNumber: 100 }, { url: "b", blockNumber: 50 }], Date.now());
+  tracker.recordResult(CHAIN_ID, "first", "a", "eth_blockNumber", "0x64");
+  tracker.recordResult(CHAIN_ID, "second", "a", "eth_blockNumber", "0x64");
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, "first", ["b", "a"]), ["b", "a"]);
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, "second", ["b", "a"]), ["a"]);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.deepEqual(tracker.orderForSession(CHAIN_ID, "second", ["b", "a"]), ["b", "a"]);
+});
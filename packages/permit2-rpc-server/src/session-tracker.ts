@@ -0,0 +1,214 @@
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface SessionOptions {
+  // "pin": prefer the upstream that served the session first, failing over only to nodes at or above
+  // the session's highest seen block. "monotonic": no pinning, only the block height guarantee.
+  mode?: "pin" | "monotonic";
+  ttlMs?: number; // Idle time after which a session is forgotten
+  maxSessions?: number; // Upper bound on tracked sessions (oldest are evicted)
+  headMaxAgeMs?: number; // An RPC's observed head older than this no longer proves it is behind (default 30 s)
+}
+
+interface SessionState {
+  pinnedUrl: string | null;
+  minBlock: number; // Highest block this session has already seen
+  lastSeen: number;
+}
+
+interface ObservedHead {
+  block: number;
+  observedAt: number;
+}
+
+const DEFAULT_SESSION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_MAX_SESSIONS = 10000;
+// A few blocks on most chains; an older head may well have moved past the session's block since
+const DEFAULT_HEAD_MAX_AGE_MS = 30 * 1000;
+
+function parseHex(value: unknown): number | null {
+  return typeof value === "string" && /^0x[0-9a-fA-F]+$/.test(value) ? parseInt(value, 16) : null;
+}
+
+/**
+ * Extracts the highest block number a response proves the serving node has reached.
+ */
+export function extractBlockNumber(method: string, result: unknown): number | null {
+  if (result === null || result === undefined) return null;
+  switch (method) {
+    case "eth_blockNumber":
+      return parseHex(result);
+    case "eth_getBlockByNumber":
+    case "eth_getBlockByHash":
+      return parseHex((result as { number?: unknown }).number);
+    case "eth_getTransactionReceipt":
+    case "eth_getTransactionByHash":
+      return parseHex((result as { blockNumber?: unknown }).blockNumber);
+    case "eth_getLogs": {
+      if (!Array.isArray(result)) return null;
+      const blocks = result
+        .map((log) => parseHex((log as { blockNumber?: unknown })?.blockNumber))
+        .filter((block): block is number => block !== null);
+      return blocks.length > 0 ? Math.max(...blocks) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the head block a response proves for requests that read the chain head, or a block the
+ * request asked for that the node reported missing. Null when the response says nothing about the head.
+ */
+function provenHead(method: string, params: unknown[], result: unknown): { block: number; missing: boolean } | null {
+  if (method === "eth_blockNumber") {
+    const block = parseHex(result);
+    return block === null ? null : { block, missing: false };
+  }
+  if (method === "eth_getBlockByNumber") {
+    const tag = params[0] ?? "latest";
+    if (tag === "latest") {
+      const block = parseHex((result as { number?: unknown } | null)?.number);
+      return block === null ? null : { block, missing: false };
+    }
+    const requested = parseHex(tag);
+    return requested !== null && result === null ? { block: requested, missing: true } : null;
+  }
+  return null;
+}
+
+/**
+ * Keeps a client's consecutive reads consistent across upstreams. Sessions are keyed by a
+ * client-supplied id and live in memory, so the guarantee holds per server instance.
+ */
+export class SessionTracker {
+  private sessions = new Map<string, SessionState>();
+  private observedHeads = new Map<string, ObservedHead>(); // Highest block each upstream has served, by chain and URL
+  private mode: "pin" | "monotonic";
+  private ttlMs: number;
+  private maxSessions: number;
+  private headMaxAgeMs: number;
+  private log: LoggerFn;
+
+  constructor(options: SessionOptions = {}, logger?: LoggerFn) {
+    this.mode = options.mode ?? "pin";
+    this.ttlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.headMaxAgeMs = options.headMaxAgeMs ?? DEFAULT_HEAD_MAX_AGE_MS;
+    this.log = logger || (() => {});
+  }
+
+  private getSession(chainId: number, sessionId: string): SessionState | null {
+    const key = `${chainId}:${sessionId}`;
+    const session = this.sessions.get(key);
+    if (!session) return null;
+    if (Date.now() - session.lastSeen > this.ttlMs) {
+      this.sessions.delete(key);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Records the head block each RPC reported in its latency test (run at `testedAt`), so sessions can
+   * tell caught-up nodes from lagging ones before the first proxied response.
+   */
+  observeHeads(chainId: number, results: { url: string; blockNumber?: number }[], testedAt: number): void {
+    for (const { url, blockNumber } of results) {
+      if (blockNumber !== undefined) this.observeHead(chainId, url, blockNumber, testedAt);
+    }
+  }
+
+  private observeHead(chainId: number, url: string, block: number, observedAt: number): void {
+    const key = `${chainId}:${url}`;
+    const current = this.observedHeads.get(key);
+    if (!current || block > current.block || (block === current.block && observedAt > current.observedAt)) {
+      this.observedHeads.set(key, { block, observedAt });
+    }
+  }
+
+  /**
+   * Orders the ranked URLs for a session: the pinned upstream first (in "pin" mode), then nodes known
+   * to be at or above the session's highest seen block, then nodes whose height is unknown, then nodes
+   * that were behind when last observed but may have caught up since (their head is older than
+   * `headMaxAgeMs`). Responses of the last two groups are checked with `isBehindSession`. Nodes recently
+   * seen behind are left out, so the list may be empty.
+   */
+  orderForSession(chainId: number, sessionId: string, urls: string[]): string[] {
+    const session = this.getSession(chainId, sessionId);
+    if (!session) return urls;
+
+    const caughtUp: string[] = [];
+    const unknown: string[] = [];
+    const stale: string[] = [];
+    const behind: string[] = [];
+    for (const url of urls) {
+      const head = this.observedHeads.get(`${chainId}:${url}`);
+      if (head === undefined) unknown.push(url);
+      else if (head.block >= session.minBlock) caughtUp.push(url);
+      else if (Date.now() - head.observedAt > this.headMaxAgeMs) stale.push(url);
+      else behind.push(url);
+    }
+    let ordered = [...caughtUp, ...unknown, ...stale];
+    if (this.mode === "pin" && session.pinnedUrl && ordered.includes(session.pinnedUrl)) {
+      ordered = [session.pinnedUrl, ...ordered.filter((url) => url !== session.pinnedUrl)];
+    }
+    if (behind.length > 0) {
+      this.log("debug", `Session ${sessionId}: skipping ${behind.length} RPCs behind block ${session.minBlock}`);
+    }
+    return ordered;
+  }
+
+  /**
+   * Returns true when a response proves its node is behind a block the session has already seen
+   * (e.g. a lower `eth_blockNumber`, or a null block the session knows exists). Such responses must
+   * not reach the client.
+   */
+  isBehindSession(
+    chainId: number,
+    sessionId: string | undefined,
+    method: string,
+    params: unknown[],
+    result: unknown,
+  ): boolean {
+    if (!sessionId) return false;
+    const session = this.getSession(chainId, sessionId);
+    const head = provenHead(method, params, result);
+    if (!session || !head) return false;
+    return head.missing ? head.block <= session.minBlock : head.block < session.minBlock;
+  }
+
+  /**
+   * Records which upstream served a response and the block height it proves, for the upstream
+   * itself and (when a session id is given) for the session.
+   */
+  recordResult(
+    chainId: number,
+    sessionId: string | undefined,
+    url: string,
+    method: string,
+    result: unknown,
+  ): void {
+    const block = extractBlockNumber(method, result);
+    if (block !== null) this.observeHead(chainId, url, block, Date.now());
+    if (!sessionId) return;
+
+    const key = `${chainId}:${sessionId}`;
+    const session = this.getSession(chainId, sessionId) ??
+      { pinnedUrl: null, minBlock: 0, lastSeen: Date.now() };
+    session.pinnedUrl ??= url;
+    session.minBlock = Math.max(session.minBlock, block ?? 0);
+    session.lastSeen = Date.now();
+    this.sessions.delete(key); // Re-insert to keep the map ordered by recency
+    this.sessions.set(key, session);
+    while (this.sessions.size > this.maxSessions) {
+      const oldestKey = this.sessions.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.sessions.delete(oldestKey);
+    }
+  }
+}
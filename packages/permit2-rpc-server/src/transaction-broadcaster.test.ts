@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { keccak256 } from "./keccak.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
+import { TransactionBroadcaster, transactionHash } from "./transaction-broadcaster.ts";
+
+// A minimal type-3 payload body, rlp([1, 2]), in its canonical and network (with sidecar) forms
+const BLOB_TX = "0x03c20102";
+const BLOB_TX_HASH = "0x5a376340e79d11eedd46fa987fde419bac97ae1bb12bd9ffbb9a2171208171c2";
+const BLOB_TX_NETWORK_FORM = "0x03c9c2010283616263c0c0"; // rlp([[1, 2], "abc", [], []])
+
+Deno.test("transactionHash: hashes the raw payload of ordinary transactions", () => {
+  assert.equal(transactionHash("0xc0"), keccak256(new Uint8Array([0xc0])));
+  assert.equal(transactionHash("0x02c20102"), keccak256(new Uint8Array([0x02, 0xc2, 0x01, 0x02])));
+});
+
+Deno.test("transactionHash: leaves the sidecar of network-form blob transactions out", () => {
+  assert.equal(transactionHash(BLOB_TX), BLOB_TX_HASH);
+  assert.equal(transactionHash(BLOB_TX_NETWORK_FORM), BLOB_TX_HASH);
+});
+
+Deno.test("transactionHash: handles long-form RLP list headers", () => {
+  const body = "f867" + "01" + "b864" + "ab".repeat(100); // rlp([1, <100 bytes>])
+  const networkForm = "0x03f86b" + body + "c0c0";
+  assert.equal(transactionHash(networkForm), transactionHash("0x03" + body));
+});
+
+Deno.test("TransactionBroadcaster: already-known responses count as accepted", async () => {
+  const broadcaster = new TransactionBroadcaster((_chainId, url) =>
+    url === "a"
+      ? Promise.reject(new JsonRpcUpstreamError(-32000, "already known"))
+      : Promise.reject(new Error("timeout"))
+  );
+  assert.equal(await broadcaster.broadcast(1, ["a", "b"], BLOB_TX_NETWORK_FORM), BLOB_TX_HASH);
+});
+
+Deno.test("TransactionBroadcaster: surfaces the node's own error when every RPC rejects", async () => {
+  const calls: string[] = [];
+  const broadcaster = new TransactionBroadcaster((_chainId, url, method) => {
+    calls.push(`${url}:${method}`);
+    if (method === "eth_getTransactionByHash") return Promise.resolve(null);
+    return Promise.reject(new JsonRpcUpstreamError(-32000, "insufficient funds for gas * price + value"));
+  });
+  await assert.rejects(broadcaster.broadcast(1, ["a", "b"], "0x02c20102"), /insufficient funds/);
+  assert.equal(calls.filter((call) => call.endsWith("eth_sendRawTransaction")).length, 2);
+});
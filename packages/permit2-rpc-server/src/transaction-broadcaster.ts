@@ -0,0 +1,148 @@
+import { hexToBytes, keccak256 } from "./keccak.ts";
+import { JsonRpcUpstreamError } from "./rpc-errors.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+type RpcAttempt = (
+  chainId: number,
+  url: string,
+  method: string,
+  params: unknown[],
+) => Promise<unknown>;
+
+// Responses meaning "this exact transaction is already in the node's pool or chain"
+const ALREADY_KNOWN_PATTERN =
+  /already known|known transaction|already imported|already exists|alreadyknown|already in (the )?mempool/i;
+
+// Responses that may mean the transaction was already mined, or that another one used the nonce
+const NONCE_TOO_LOW_PATTERN = /nonce too low|nonce has already been used|oldnonce|invalid nonce/i;
+
+// EIP-4844 blob transaction type
+const BLOB_TX_TYPE = 0x03;
+
+// Locates the payload of the RLP item at `offset`
+function rlpItem(bytes: Uint8Array, offset: number): { isList: boolean; start: number; end: number } {
+  const prefix = bytes[offset];
+  if (prefix < 0x80) return { isList: false, start: offset, end: offset + 1 };
+  const isList = prefix >= 0xc0;
+  const shortLimit = isList ? 0xf7 : 0xb7;
+  const base = isList ? 0xc0 : 0x80;
+  if (prefix <= shortLimit) return { isList, start: offset + 1, end: offset + 1 + prefix - base };
+  const lengthOfLength = prefix - shortLimit;
+  let length = 0;
+  for (let i = 1; i <= lengthOfLength; i++) length = length * 256 + bytes[offset + i];
+  const start = offset + 1 + lengthOfLength;
+  return { isList, start, end: start + length };
+}
+
+/**
+ * Returns the hash of a signed raw transaction. Blob transactions are broadcast in their network form,
+ * `0x03 || rlp([tx_payload_body, blobs, commitments, proofs])`, but hashed without the sidecar:
+ * `keccak256(0x03 || rlp(tx_payload_body))`.
+ */
+export function transactionHash(rawTx: string): string {
+  const bytes = hexToBytes(rawTx);
+  if (bytes[0] === BLOB_TX_TYPE && bytes.length > 1) {
+    const wrapper = rlpItem(bytes, 1);
+    // In the canonical form the list's first item is the chain ID; in the network form it is the body list
+    const first = wrapper.isList && wrapper.start < wrapper.end ? rlpItem(bytes, wrapper.start) : null;
+    if (first?.isList) {
+      const signed = new Uint8Array(1 + first.end - wrapper.start);
+      signed[0] = BLOB_TX_TYPE;
+      signed.set(bytes.subarray(wrapper.start, first.end), 1);
+      return keccak256(signed);
+    }
+  }
+  return keccak256(bytes);
+}
+
+/**
+ * Broadcasts a signed transaction to several RPCs at once.
+ * The transaction hash is computed locally from the raw payload, so the same hash is returned
+ * no matter which RPC accepted it. The raw payload is forwarded unchanged and sent at most once per RPC.
+ */
+export class TransactionBroadcaster {
+  private attempt: RpcAttempt;
+  private log: LoggerFn;
+
+  constructor(attempt: RpcAttempt, logger?: LoggerFn) {
+    this.attempt = attempt;
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Sends `rawTx` to every URL concurrently and resolves to its hash once any RPC accepted it
+   * or reported it as already known. Rejects with the node's own JSON-RPC error when one was returned,
+   * so clients see e.g. "insufficient funds" with its original code.
+   */
+  async broadcast(chainId: number, urls: string[], rawTx: unknown): Promise<string> {
+    if (typeof rawTx !== "string") {
+      throw new Error("eth_sendRawTransaction expects a hex-encoded signed transaction");
+    }
+    const txHash = transactionHash(rawTx);
+
+    this.log("debug", `Broadcasting transaction ${txHash} to ${urls.length} RPCs`);
+    const results = await Promise.allSettled(
+      urls.map((url) => this.attempt(chainId, url, "eth_sendRawTransaction", [rawTx])),
+    );
+
+    const errors: Error[] = [];
+    let accepted = 0;
+    let nonceTooLow = false;
+    results.forEach((result, index) => {
+      const url = urls[index];
+      if (result.status === "fulfilled") {
+        if (typeof result.value === "string" && result.value.toLowerCase() === txHash) {
+          accepted++;
+        } else {
+          this.log("warn", `RPC ${url} returned an unexpected hash for ${txHash}: ${String(result.value)}`);
+        }
+        return;
+      }
+      const error = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+      if (ALREADY_KNOWN_PATTERN.test(error.message)) {
+        accepted++;
+        return;
+      }
+      nonceTooLow ||= NONCE_TOO_LOW_PATTERN.test(error.message);
+      this.log("warn", `RPC ${url} rejected transaction ${txHash}: ${error.message}`);
+      errors.push(error);
+    });
+
+    if (accepted > 0) {
+      this.log("info", `Transaction ${txHash} accepted by ${accepted} of ${urls.length} RPCs`);
+      return txHash;
+    }
+
+    // "nonce too low" or timeouts are ambiguous: the transaction may already be mined or pooled
+    if (await this.isKnownTransaction(chainId, urls, txHash)) {
+      this.log("info", `Transaction ${txHash} was already known upstream${nonceTooLow ? " (nonce too low)" : ""}`);
+      return txHash;
+    }
+
+    // Prefer an error the node actually returned over transport failures
+    const upstreamError = errors.find((error) => error instanceof JsonRpcUpstreamError);
+    if (upstreamError) throw upstreamError;
+    const lastError = errors[0];
+    throw new Error(
+      `Transaction ${txHash} was rejected by all ${urls.length} RPCs. Last error: ${lastError?.message}`,
+    );
+  }
+
+  private async isKnownTransaction(chainId: number, urls: string[], txHash: string): Promise<boolean> {
+    for (const url of urls) {
+      try {
+        const tx = await this.attempt(chainId, url, "eth_getTransactionByHash", [txHash]);
+        if (tx !== null && tx !== undefined) return true;
+      } catch {
+        // Try the next RPC
+      }
+    }
+    return false;
+  }
+}
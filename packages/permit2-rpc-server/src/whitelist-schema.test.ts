@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { ChainlistDataSource } from "./chainlist-data-source.ts";
+import { isTrackingAllowed, normalizeEndpoint, parseWhitelist } from "./whitelist-schema.ts";
+
+Deno.test("parseWhitelist: accepts v1 URL lists and v2 endpoint objects, mixed", () => {
+  const whitelist = {
+    version: 2,
+    rpcs: {
+      "1": ["https://a.example", { url: "https://b.example", weight: 2, tier: 2, tracking: "none" }],
+      "100": [{ url: "https://c.example", archive: true, headers: { "x-api-key": "secret" } }],
+    },
+  };
+  assert.equal(parseWhitelist(whitelist), whitelist);
+  assert.deepEqual(parseWhitelist({ rpcs: { "1": ["https://a.example"] } }).rpcs["1"], ["https://a.example"]);
+});
+
+Deno.test("parseWhitelist: rejects invalid documents with the offending field", () => {
+  const invalid = (json: unknown, pattern: RegExp) => assert.throws(() => parseWhitelist(json), pattern);
+  invalid(null, /expected an object with an `rpcs` map/);
+  invalid({ rpcs: {} }, /lists no chains/);
+  invalid({ version: 3, rpcs: { "1": [] } }, /unsupported version 3/);
+  invalid({ rpcs: { mainnet: [] } }, /chain key "mainnet" is not a chain ID/);
+  invalid({ rpcs: { "1": "https://a.example" } }, /rpcs.1 must be a list/);
+  invalid({ rpcs: { "1": [{ weight: 1 }] } }, /rpcs.1\[0\] must be a URL string or an object with a url/);
+  invalid({ rpcs: { "1": [{ url: "u", weight: 0 }] } }, /rpcs.1\[0\].weight must be a positive number/);
+  invalid({ rpcs: { "1": [{ url: "u", tier: 1.5 }] } }, /tier must be a positive integer/);
+  invalid({ rpcs: { "1": [{ url: "u", tracking: "some" }] } }, /tracking must be one of none, limited, yes/);
+  invalid({ rpcs: { "1": [{ url: "u", archive: "yes" }] } }, /archive must be a boolean/);
+  invalid({ rpcs: { "1": [{ url: "u", headers: { "bad header": "x" } }] } }, /must be a valid header/);
+  invalid({ rpcs: { "1": [{ url: "u", headers: { key: 1 } }] } }, /must be a valid header/);
+  invalid({ rpcs: { "1": ["not a url"] } }, /rpcs.1\[0\] is not a valid URL/);
+  invalid({ rpcs: { "1": [{ url: "a.example" }] } }, /rpcs.1\[0\].url is not a valid URL/);
+});
+
+Deno.test("parseWhitelist: every chain needs an enabled https endpoint without placeholders", () => {
+  const noUsable = /rpcs.1 has no usable endpoint/;
+  assert.throws(() => parseWhitelist({ rpcs: { "1": [] } }), noUsable);
+  assert.throws(() => parseWhitelist({ rpcs: { "1": ["http://a.example", "wss://b.example"] } }), noUsable);
+  assert.throws(() => parseWhitelist({ rpcs: { "1": ["https://a.example/${API_KEY}"] } }), noUsable);
+  assert.throws(() => parseWhitelist({ rpcs: { "1": [{ url: "https://a.example", disabled: true }] } }), noUsable);
+  // Unusable URLs next to a usable one are accepted (and skipped when loading)
+  assert.doesNotThrow(() => parseWhitelist({ rpcs: { "1": ["http://a.example", "https://b.example"] } }));
+});
+
+Deno.test("normalizeEndpoint and isTrackingAllowed apply the defaults", () => {
+  const endpoint = normalizeEndpoint("https://a.example");
+  assert.deepEqual(endpoint, {
+    url: "https://a.example",
+    weight: 1,
+    tracking: undefined,
+    archive: undefined,
+    tier: 1,
+    disabled: false,
+    headers: {},
+  });
+  assert.equal(isTrackingAllowed(endpoint, "none"), true);
+  assert.equal(isTrackingAllowed(normalizeEndpoint({ url: "u", tracking: "limited" }), "none"), false);
+  assert.equal(isTrackingAllowed(normalizeEndpoint({ url: "u", tracking: "limited" }), "limited"), true);
+});
+
+Deno.test("ChainlistDataSource: keys endpoint metadata by chain and URL", () => {
+  const dataSource = new ChainlistDataSource(undefined, {
+    rpcs: {
+      "1": [{ url: "https://multi.example", headers: { "x-api-key": "mainnet" } }],
+      "100": [{ url: "https://multi.example", weight: 3 }, { url: "https://off.example", disabled: true }],
+    },
+  });
+  assert.deepEqual(dataSource.getHeaders(1, "https://multi.example"), { "x-api-key": "mainnet" });
+  assert.deepEqual(dataSource.getHeaders(100, "https://multi.example"), {});
+  assert.equal(dataSource.getEndpoint(100, "https://multi.example")?.weight, 3);
+  assert.equal(dataSource.getEndpoint(137, "https://multi.example"), undefined);
+  assert.deepEqual(dataSource.getRpcUrls(100), ["https://multi.example"]);
+});
@@ -0,0 +1,152 @@
+// Format of rpc-whitelist.json. Each chain lists its RPCs either as plain URL strings (v1) or as endpoint
+// objects carrying metadata (v2); both may be mixed within one file.
+
+// How much an endpoint tracks its users, as labelled on chainlist.org
+export type TrackingLevel = "none" | "limited" | "yes";
+
+export interface RpcEndpointConfig {
+  url: string;
+  weight?: number; // Ranking weight: 2 ranks as if twice as fast (default 1)
+  tracking?: TrackingLevel;
+  archive?: boolean; // Declares archive state; overrides the probed capability
+  tier?: number; // Lower tiers are preferred over higher ones with the same status (default 1)
+  disabled?: boolean; // Keep the entry but don't use it
+  headers?: Record<string, string>; // Sent with every request to this endpoint (e.g. API keys)
+}
+
+export interface RpcWhitelist {
+  version?: 1 | 2;
+  rpcs: {
+    [chainId: string]: (string | RpcEndpointConfig)[]; // chainId as string key
+  };
+}
+
+// Extra request headers configured for a chain's RPC URL (e.g. API keys from the whitelist)
+export type HeadersFn = (chainId: number, url: string) => Record<string, string>;
+
+// An endpoint with defaults applied
+export interface RpcEndpoint {
+  url: string;
+  weight: number;
+  tracking?: TrackingLevel;
+  archive?: boolean;
+  tier: number;
+  disabled: boolean;
+  headers: Record<string, string>;
+}
+
+const TRACKING_LEVELS: TrackingLevel[] = ["none", "limited", "yes"];
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Returns true for URLs the server can call: https only, and no unresolved `${...}` placeholders
+ * (e.g. API keys the upstream list leaves to the user).
+ */
+export function isUsableRpcUrl(url: string): boolean {
+  return url.startsWith("https://") && !url.includes("${");
+}
+
+function validateUrl(url: string, label: string): void {
+  try {
+    new URL(url);
+  } catch {
+    throw new Error(`Invalid RPC whitelist: ${label} is not a valid URL`);
+  }
+}
+
+function validateEndpoint(endpoint: unknown, label: string): void {
+  if (typeof endpoint === "string") return validateUrl(endpoint, label);
+  const config = endpoint as RpcEndpointConfig;
+  if (typeof config !== "object" || config === null || typeof config.url !== "string") {
+    throw new Error(`Invalid RPC whitelist: ${label} must be a URL string or an object with a url`);
+  }
+  if (config.weight !== undefined && !(typeof config.weight === "number" && config.weight > 0)) {
+    throw new Error(`Invalid RPC whitelist: ${label}.weight must be a positive number`);
+  }
+  if (config.tracking !== undefined && !TRACKING_LEVELS.includes(config.tracking)) {
+    throw new Error(`Invalid RPC whitelist: ${label}.tracking must be one of ${TRACKING_LEVELS.join(", ")}`);
+  }
+  if (config.tier !== undefined && !(Number.isInteger(config.tier) && config.tier >= 1)) {
+    throw new Error(`Invalid RPC whitelist: ${label}.tier must be a positive integer`);
+  }
+  for (const field of ["archive", "disabled"] as const) {
+    if (config[field] !== undefined && typeof config[field] !== "boolean") {
+      throw new Error(`Invalid RPC whitelist: ${label}.${field} must be a boolean`);
+    }
+  }
+  if (config.headers !== undefined) {
+    const headers = config.headers;
+    if (typeof headers !== "object" || headers === null || Array.isArray(headers)) {
+      throw new Error(`Invalid RPC whitelist: ${label}.headers must be an object`);
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      if (!HEADER_NAME_PATTERN.test(name) || typeof value !== "string") {
+        throw new Error(
+          `Invalid RPC whitelist: ${label}.headers["${name}"] must be a valid header with a string value`,
+        );
+      }
+    }
+  }
+  validateUrl(config.url, `${label}.url`);
+}
+
+/**
+ * Validates untrusted whitelist JSON (e.g. fetched at runtime) and returns it typed.
+ * Throws on the first problem so a bad update never replaces working data. Unusable URLs (see
+ * `isUsableRpcUrl`) are allowed but skipped when loading, so every chain needs at least one usable,
+ * enabled endpoint.
+ */
+export function parseWhitelist(json: unknown): RpcWhitelist {
+  const { rpcs, version } = (json ?? {}) as { rpcs?: unknown; version?: unknown };
+  if (version !== undefined && version !== 1 && version !== 2) {
+    throw new Error(`Invalid RPC whitelist: unsupported version ${JSON.stringify(version)}`);
+  }
+  if (typeof rpcs !== "object" || rpcs === null || Array.isArray(rpcs)) {
+    throw new Error("Invalid RPC whitelist: expected an object with an `rpcs` map");
+  }
+  const entries = Object.entries(rpcs);
+  if (entries.length === 0) {
+    throw new Error("Invalid RPC whitelist: `rpcs` lists no chains");
+  }
+  for (const [chainIdStr, endpoints] of entries) {
+    if (!/^[1-9][0-9]*$/.test(chainIdStr)) {
+      throw new Error(`Invalid RPC whitelist: chain key "${chainIdStr}" is not a chain ID`);
+    }
+    if (!Array.isArray(endpoints)) {
+      throw new Error(`Invalid RPC whitelist: rpcs.${chainIdStr} must be a list of endpoints`);
+    }
+    endpoints.forEach((endpoint, index) => validateEndpoint(endpoint, `rpcs.${chainIdStr}[${index}]`));
+    const usable = (endpoints as (string | RpcEndpointConfig)[]).map(normalizeEndpoint)
+      .filter(({ url, disabled }) => !disabled && isUsableRpcUrl(url));
+    if (usable.length === 0) {
+      throw new Error(
+        `Invalid RPC whitelist: rpcs.${chainIdStr} has no usable endpoint (an enabled https URL without \${...})`,
+      );
+    }
+  }
+  return json as RpcWhitelist;
+}
+
+/**
+ * Applies the defaults to a whitelist entry; plain URL strings become endpoints without metadata.
+ */
+export function normalizeEndpoint(endpoint: string | RpcEndpointConfig): RpcEndpoint {
+  const config = typeof endpoint === "string" ? { url: endpoint } : endpoint;
+  return {
+    url: config.url,
+    weight: config.weight ?? 1,
+    tracking: config.tracking,
+    archive: config.archive,
+    tier: config.tier ?? 1,
+    disabled: config.disabled ?? false,
+    headers: config.headers ?? {},
+  };
+}
+
+/**
+ * Returns true when the endpoint's tracking label is at most `maxTracking`. Unlabelled endpoints pass.
+ */
+export function isTrackingAllowed(endpoint: RpcEndpoint, maxTracking: TrackingLevel): boolean {
+  return endpoint.tracking === undefined ||
+    TRACKING_LEVELS.indexOf(endpoint.tracking) <= TRACKING_LEVELS.indexOf(maxTracking);
+}
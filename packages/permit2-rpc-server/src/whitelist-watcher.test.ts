@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import type { RpcWhitelist } from "./whitelist-schema.ts";
+import { WhitelistWatcher } from "./whitelist-watcher.ts";
+
+// Writes the document with an explicit mtime, so consecutive writes are always seen as changes
+async function writeWhitelist(path: string, json: unknown, mtimeSeconds: number): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify(json));
+  await Deno.utime(path, mtimeSeconds, mtimeSeconds);
+}
+
+Deno.test("WhitelistWatcher: applies new versions of a file and skips unchanged ones", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/whitelist.json`;
+    const applied: RpcWhitelist[] = [];
+    const watcher = new WhitelistWatcher({ location: path, pollIntervalMs: 0 }, (whitelist) => {
+      applied.push(whitelist);
+    });
+
+    await writeWhitelist(path, { rpcs: { "1": ["https://a.example"] } }, 1000);
+    assert.equal(await watcher.check(), true);
+    assert.equal(await watcher.check(), false);
+
+    await writeWhitelist(path, { rpcs: { "1": ["https://a.example", "https://b.example"] } }, 2000);
+    assert.equal(await watcher.check(), true);
+    assert.deepEqual(applied.map((whitelist) => whitelist.rpcs["1"].length), [1, 2]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("WhitelistWatcher: keeps the last good version when an update is invalid", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/whitelist.json`;
+    const applied: RpcWhitelist[] = [];
+    const watcher = new WhitelistWatcher({ location: path, pollIntervalMs: 0 }, (whitelist) => {
+      applied.push(whitelist);
+    });
+
+    await writeWhitelist(path, { rpcs: { "1": ["https://a.example"] } }, 1000);
+    assert.equal(await watcher.check(), true);
+    // Chain 1 would be left without a single usable RPC
+    await writeWhitelist(path, { rpcs: { "1": ["http://a.example", "https://b.example/${KEY}"] } }, 2000);
+    assert.equal(await watcher.check(), false);
+    await Deno.writeTextFile(path, "{ not json");
+    await Deno.utime(path, 3000, 3000);
+    assert.equal(await watcher.check(), false);
+    await Deno.remove(path);
+    assert.equal(await watcher.check(), false);
+    assert.equal(applied.length, 1);
+
+    // The next valid version is picked up again
+    await writeWhitelist(path, { rpcs: { "1": ["https://b.example"] } }, 4000);
+    assert.equal(await watcher.check(), true);
+    assert.deepEqual(applied.map((whitelist) => whitelist.rpcs["1"]), [["https://a.example"], ["https://b.example"]]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
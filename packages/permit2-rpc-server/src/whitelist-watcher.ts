@@ -0,0 +1,123 @@
+import { parseWhitelist, type RpcWhitelist } from "./whitelist-schema.ts";
+
+// Define a logger type
+type LoggerFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  ...optionalParams: unknown[]
+) => void;
+
+export interface WhitelistSourceOptions {
+  location: string; // http(s) URL or file path of a whitelist JSON document
+  pollIntervalMs?: number; // Default 5 minutes; 0 disables polling (reload on demand only)
+  fetchTimeoutMs?: number; // Default 10 seconds
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Loaded on first use so that importing this module doesn't require node:fs (e.g. in browsers)
+const loadFs = async () => (await import("node:fs")).promises;
+
+/**
+ * Polls a whitelist URL (conditional requests with ETag / If-Modified-Since) or file (mtime) and hands
+ * each new, valid version to `onUpdate`. Fetch failures and invalid documents are logged and ignored,
+ * so the last good version stays in use.
+ */
+export class WhitelistWatcher {
+  private location: string;
+  private pollIntervalMs: number;
+  private fetchTimeoutMs: number;
+  private onUpdate: (whitelist: RpcWhitelist) => void | Promise<void>;
+  private log: LoggerFn;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking: Promise<boolean> | null = null;
+  // Validators of the version last seen, whether it was valid or not
+  private etag: string | null = null;
+  private lastModified: string | null = null;
+  private mtimeMs: number | null = null;
+  private lastText: string | null = null;
+
+  constructor(
+    options: WhitelistSourceOptions,
+    onUpdate: (whitelist: RpcWhitelist) => void | Promise<void>,
+    logger?: LoggerFn,
+  ) {
+    this.location = options.location;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.fetchTimeoutMs = options.fetchTimeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+    this.onUpdate = onUpdate;
+    this.log = logger || (() => {});
+  }
+
+  /**
+   * Checks once right away, then on every poll interval.
+   */
+  start(): void {
+    void this.check();
+    if (this.timer || this.pollIntervalMs <= 0) return;
+    this.timer = setInterval(() => void this.check(), this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Checks the source for a new version. Returns true when one was applied; never rejects.
+   * Concurrent calls share one check.
+   */
+  check(): Promise<boolean> {
+    this.checking ??= this._check().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async _check(): Promise<boolean> {
+    try {
+      const text = /^https?:\/\//.test(this.location) ? await this._fetchUrl() : await this._readFile();
+      if (text === null || text === this.lastText) return false;
+      this.lastText = text;
+      const whitelist = parseWhitelist(JSON.parse(text));
+      await this.onUpdate(whitelist);
+      this.log("info", `Loaded new RPC whitelist from ${this.location}`);
+      return true;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.log("warn", `Keeping the current RPC whitelist, update from ${this.location} failed:`, error.message);
+      return false;
+    }
+  }
+
+  // Returns the body, or null when the server reports it unchanged
+  private async _fetchUrl(): Promise<string | null> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.etag) headers["If-None-Match"] = this.etag;
+    if (this.lastModified) headers["If-Modified-Since"] = this.lastModified;
+    const response = await fetch(this.location, { headers, signal: AbortSignal.timeout(this.fetchTimeoutMs) });
+    if (response.status === 304) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    this.etag = response.headers.get("ETag");
+    this.lastModified = response.headers.get("Last-Modified");
+    return text;
+  }
+
+  // Returns the file contents, or null when its mtime hasn't changed
+  private async _readFile(): Promise<string | null> {
+    const fs = await loadFs();
+    const { mtimeMs } = await fs.stat(this.location);
+    if (mtimeMs === this.mtimeMs) return null;
+    const text = await fs.readFile(this.location, "utf8");
+    this.mtimeMs = mtimeMs;
+    return text;
+  }
+}
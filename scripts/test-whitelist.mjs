@@ -73,7 +73,10 @@ async function testWhitelist() {
       }
 
       console.log(`\nTesting critical chain ${chainId}...`);
-      const rpcUrls = ourWhitelist.rpcs[chainIdStr] || [];
+      // Entries are URL strings or endpoint objects; disabled endpoints are skipped
+      const rpcUrls = (ourWhitelist.rpcs[chainIdStr] || [])
+        .filter((entry) => typeof entry === "string" || !entry.disabled)
+        .map((entry) => (typeof entry === "string" ? entry : entry.url));
       const urlsToTest = rpcUrls.slice(0, RPCS_PER_CHAIN_TO_TEST); // Test the first few
 
       if (urlsToTest.length === 0) {
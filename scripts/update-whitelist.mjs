@@ -61,16 +61,20 @@ async function updateWhitelist() {
       // Ensure the rpcs object exists
       ourWhitelist.rpcs = ourWhitelist.rpcs || {};
       if (ourWhitelist.rpcs[chainIdStr]) {
-        // Chain exists, merge URLs ensuring uniqueness
-        const existingUrls = new Set(ourWhitelist.rpcs[chainIdStr]);
+        // Chain exists, merge URLs ensuring uniqueness. Entries may be URL strings or
+        // endpoint objects ({ url, weight, ... }); existing entries are kept as they are.
+        const entries = ourWhitelist.rpcs[chainIdStr];
+        const existingUrls = new Set(
+          entries.map((entry) => (typeof entry === "string" ? entry : entry.url)),
+        );
         let addedCount = 0;
         newUrls.forEach((url) => {
           if (!existingUrls.has(url)) {
             existingUrls.add(url);
+            entries.push(url);
             addedCount++;
           }
         });
-        ourWhitelist.rpcs[chainIdStr] = Array.from(existingUrls);
         if (addedCount > 0) {
           console.log(
             `Merged/Added ${addedCount} new URLs for chain ${chainIdStr}.`,